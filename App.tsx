@@ -1,16 +1,56 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { ShieldCheck } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { ShieldCheck, Cloud } from 'lucide-react';
 import FileUpload from './components/FileUpload';
 import Dashboard from './components/Dashboard';
 import Onboarding from './components/Onboarding';
-import { extractTransactionsFromDocument } from './services/geminiService';
-import { Transaction, ModelProvider } from './types';
+import RulesManager from './components/RulesManager';
+import StatementList from './components/StatementList';
+import SessionsManager from './components/SessionsManager';
+import TaxpayerProfileForm from './components/TaxpayerProfileForm';
+import { ExtractionOptions, extractStatement } from './services/extractionService';
+import { applyRules, loadRules, saveRules } from './services/rulesService';
+import { parseStatementFile } from './services/parsers';
+import { resolveAccount, mergeStatementTransactions, pairInterAccountTransfers } from './services/auditService';
+import { EMPTY_HISTORY, recordEdit, undoEdit, redoEdit, historyToSave } from './services/ledgerService';
+import { computeTaxBreakdown, defaultTaxInputs } from './services/taxService';
+import { saveSession, openSession } from './services/sessionService';
+import { clearSessionKeys } from './services/cryptoService';
+import { Transaction, ModelProvider, CategorisationRule, ExtractedStatement, StatementFile, SourceDocument, LedgerHistory,
+  TaxInputs, AuditSessionData, CurrentSession, SaveSessionRequest, TaxpayerProfile } from './types';
+
+const AUTOSAVE_DELAY_MS = 1500;
 
 function App() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [statements, setStatements] = useState<StatementFile[]>([]);
+  // Uploaded PDFs and images by statement id, for the page viewer. Held in memory only
+  const [sourceDocuments, setSourceDocuments] = useState<Record<string, SourceDocument>>({});
+  const [history, setHistory] = useState<LedgerHistory>(EMPTY_HISTORY);
+  const [taxInputs, setTaxInputs] = useState<TaxInputs | null>(null);
+  const [currentSession, setCurrentSession] = useState<CurrentSession | null>(null);
+  const [showSessions, setShowSessions] = useState(false);
+  const [profile, setProfile] = useState<TaxpayerProfile | null>(null);
+  const [showProfile, setShowProfile] = useState(false);
+  // Set when state has just been written to or read from storage, so autosave does not echo it straight back
+  const skipNextAutosave = useRef(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [view, setView] = useState<'upload' | 'dashboard'>('upload');
   const [showOnboarding, setShowOnboarding] = useState(false);
+  const [rules, setRules] = useState<CategorisationRule[]>(loadRules);
+  const [showRules, setShowRules] = useState(false);
+
+  // Several files are processed back to back, so each one must merge into the latest rows, not a stale render
+  const transactionsRef = useRef<Transaction[]>([]);
+  const updateTransactions = useCallback((next: Transaction[]) => {
+    transactionsRef.current = next;
+    setTransactions(next);
+  }, []);
+  // Likewise each file is matched to an account against every statement added before it
+  const statementsRef = useRef<StatementFile[]>([]);
+  const updateStatements = useCallback((next: StatementFile[]) => {
+    statementsRef.current = next;
+    setStatements(next);
+  }, []);
 
   useEffect(() => {
     const hasOnboarded = localStorage.getItem('hasOnboarded');
@@ -24,22 +64,141 @@ function App() {
     setShowOnboarding(false);
   };
 
-  const handleFileProcess = useCallback(async (base64Data: string, mimeType: string, provider: ModelProvider) => {
+  const handleRulesChange = (updatedRules: CategorisationRule[]) => {
+    saveRules(updatedRules);
+    setRules(updatedRules);
+    updateTransactions(applyRules(transactionsRef.current, updatedRules));
+    // Snapshots taken under the old rules would bring stale categories back
+    setHistory(EMPTY_HISTORY);
+  };
+
+  // Hand edits are undoable; rules and transfer pairing are re-run so edited rows are re-classified
+  const handleLedgerEdit = (next: Transaction[]) => {
+    // Read the ledger before updating it: the history updater runs later, after the ref has moved on
+    const current = transactionsRef.current;
+    setHistory(prev => recordEdit(prev, current));
+    updateTransactions(pairInterAccountTransfers(applyRules(next, rules)));
+  };
+
+  const handleUndo = useCallback(() => {
+    const step = undoEdit(history, transactionsRef.current);
+    if (!step) return;
+    setHistory(step.history);
+    updateTransactions(step.transactions);
+  }, [history, updateTransactions]);
+
+  const handleRedo = useCallback(() => {
+    const step = redoEdit(history, transactionsRef.current);
+    if (!step) return;
+    setHistory(step.history);
+    updateTransactions(step.transactions);
+  }, [history, updateTransactions]);
+
+  const addStatement = useCallback((fileName: string, { transactions: extracted, redaction, ...summary }: ExtractedStatement) => {
+    const id = crypto.randomUUID();
+    const account = resolveAccount(statementsRef.current, summary, fileName);
+    const tagged = applyRules(extracted, rules).map(t => ({ ...t, sourceFile: id, sourceAccount: account }));
+    const merged = mergeStatementTransactions(transactionsRef.current, tagged);
+
+    updateTransactions(pairInterAccountTransfers(merged.transactions));
+    setHistory(EMPTY_HISTORY);
+    updateStatements([...statementsRef.current, {
+      id,
+      fileName,
+      account,
+      summary,
+      extractedCount: extracted.length,
+      duplicatesRemoved: merged.duplicatesRemoved,
+      redaction
+    }]);
+    return id;
+  }, [rules, updateTransactions, updateStatements]);
+
+  const handleRemoveStatement = (id: string) => {
+    updateTransactions(pairInterAccountTransfers(transactionsRef.current.filter(t => t.sourceFile !== id)));
+    setHistory(EMPTY_HISTORY);
+    updateStatements(statementsRef.current.filter(s => s.id !== id));
+    setSourceDocuments(({ [id]: removed, ...rest }) => rest);
+  };
+
+  // Failures propagate to the upload queue, which shows them against the file and offers a resume
+  const handleFileProcess = useCallback(async (base64Data: string, mimeType: string, provider: ModelProvider, fileName: string, options: ExtractionOptions) => {
     setIsProcessing(true);
     try {
-      const extractedData = await extractTransactionsFromDocument(base64Data, mimeType, provider);
-      setTransactions(extractedData);
-      setView('dashboard');
-    } catch (error: any) {
-      alert(error.message || "Error processing statement. Please try a clearer document.");
-      console.error(error);
+      const id = addStatement(fileName, await extractStatement(base64Data, mimeType, provider, options));
+      setSourceDocuments(prev => ({ ...prev, [id]: { base64Data, mimeType } }));
     } finally {
       setIsProcessing(false);
     }
-  }, []);
+  }, [addStatement]);
+
+  const handleStructuredFile = useCallback((content: string, fileName: string) => {
+    const { format, ...parsed } = parseStatementFile(content, fileName);
+    addStatement(fileName, parsed);
+  }, [addStatement]);
+
+  const handleUploadComplete = () => {
+    if (transactionsRef.current.length > 0) setView('dashboard');
+  };
+
+  const buildSessionData = (client: string): AuditSessionData => ({
+    client,
+    statements,
+    transactions,
+    history: historyToSave(history),
+    taxInputs,
+    taxResult: computeTaxBreakdown(transactions, taxInputs ?? defaultTaxInputs(transactions)),
+    profile: profile ?? undefined
+  });
+
+  const handleSaveSession = async ({ name, client, encrypt, passphrase }: SaveSessionRequest) => {
+    const key = encrypt ? passphrase ?? currentSession?.passphrase : undefined;
+    // A newly entered passphrase must not be saved under the key derived from the old one
+    if (passphrase && currentSession) clearSessionKeys(currentSession.id);
+    const meta = await saveSession({ id: currentSession?.id, name }, buildSessionData(client), key);
+    skipNextAutosave.current = true;
+    setCurrentSession({ id: meta.id, name, client, passphrase: key });
+  };
+
+  const handleOpenSession = async (id: string, passphrase?: string) => {
+    // The session being left is closed, so its key goes with it
+    clearSessionKeys();
+    const { meta, data } = await openSession(id, passphrase);
+    skipNextAutosave.current = true;
+    updateTransactions(data.transactions);
+    updateStatements(data.statements);
+    setSourceDocuments({});
+    setHistory(data.history);
+    setTaxInputs(data.taxInputs);
+    setProfile(data.profile ?? null);
+    setCurrentSession({ id: meta.id, name: meta.name, client: data.client, passphrase });
+    setShowSessions(false);
+    setView(data.transactions.length > 0 ? 'dashboard' : 'upload');
+  };
+
+  // Once an audit has been saved, every change to it is written back after a short pause
+  useEffect(() => {
+    if (!currentSession) return;
+    if (skipNextAutosave.current) {
+      skipNextAutosave.current = false;
+      return;
+    }
+    const timer = setTimeout(() => {
+      saveSession({ id: currentSession.id, name: currentSession.name }, buildSessionData(currentSession.client), currentSession.passphrase)
+        .catch(error => console.error("Autosave failed:", error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [transactions, statements, history, taxInputs, profile, currentSession]);
 
   const handleReset = () => {
-    setTransactions([]);
+    updateTransactions([]);
+    updateStatements([]);
+    setSourceDocuments({});
+    setHistory(EMPTY_HISTORY);
+    setTaxInputs(null);
+    setProfile(null);
+    setCurrentSession(null);
+    clearSessionKeys();
     setView('upload');
   };
 
@@ -53,6 +212,25 @@ function App() {
       </div>
 
       {showOnboarding && <Onboarding onComplete={handleCompleteOnboarding} />}
+      {showRules && <RulesManager rules={rules} onChange={handleRulesChange} onClose={() => setShowRules(false)} />}
+      {showSessions && (
+        <SessionsManager
+          currentSession={currentSession}
+          canSave={transactions.length > 0}
+          defaultClient={profile?.name}
+          onSave={handleSaveSession}
+          onOpen={handleOpenSession}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
+      {showProfile && (
+        <TaxpayerProfileForm
+          profile={profile}
+          onSave={(next) => { setProfile(next); setShowProfile(false); }}
+          onClose={() => setShowProfile(false)}
+        />
+      )}
 
       {/* Navbar - Federal/Institutional Style */}
       <header className="fixed w-full bg-white/90 backdrop-blur-xl border-b border-emerald-900/10 z-40 transition-all duration-300">
@@ -73,6 +251,18 @@ function App() {
             </div>
             
             <nav className="flex items-center gap-2">
+              <button 
+                onClick={() => setShowSessions(true)}
+                className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-emerald-800 px-4 py-2 rounded-lg hover:bg-emerald-50 transition-all"
+              >
+                Sessions
+              </button>
+              <button 
+                onClick={() => setShowRules(true)}
+                className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-emerald-800 px-4 py-2 rounded-lg hover:bg-emerald-50 transition-all"
+              >
+                Rules
+              </button>
               <button 
                 onClick={() => setShowOnboarding(true)}
                 className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-emerald-800 px-4 py-2 rounded-lg hover:bg-emerald-50 transition-all"
@@ -107,7 +297,21 @@ function App() {
               </p>
             </div>
 
-            <FileUpload onFileProcess={handleFileProcess} isProcessing={isProcessing} />
+            <FileUpload
+              onFileProcess={handleFileProcess}
+              onStructuredFile={handleStructuredFile}
+              onComplete={handleUploadComplete}
+              isProcessing={isProcessing}
+            />
+
+            {statements.length > 0 && (
+              <StatementList
+                statements={statements}
+                onRemove={handleRemoveStatement}
+                onContinue={() => setView('dashboard')}
+                disabled={isProcessing}
+              />
+            )}
           </div>
         )}
 
@@ -117,15 +321,58 @@ function App() {
                 <div>
                   <h2 className="text-3xl font-bold text-slate-900 tracking-tight">Audit Report</h2>
                   <p className="text-slate-500 font-medium mt-1">Consolidated fiscal breakdown & tax liability</p>
+                  {currentSession && (
+                    <p className="flex items-center gap-1.5 text-xs font-medium text-emerald-700 mt-2">
+                      <Cloud className="w-3.5 h-3.5" />
+                      {currentSession.name}{currentSession.client && ` · ${currentSession.client}`} · saved in this browser
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setShowProfile(true)}
+                    className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-emerald-800 hover:bg-emerald-50 px-4 py-2.5 rounded-lg transition-all duration-300"
+                  >
+                    Taxpayer Profile
+                  </button>
+                  {!currentSession && (
+                    <button 
+                      onClick={() => setShowSessions(true)}
+                      className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-emerald-800 hover:bg-emerald-50 px-4 py-2.5 rounded-lg transition-all duration-300"
+                    >
+                      Save Session
+                    </button>
+                  )}
+                  <button 
+                    onClick={() => setView('upload')}
+                    className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-emerald-800 hover:bg-emerald-50 px-4 py-2.5 rounded-lg transition-all duration-300"
+                  >
+                    Add Statement
+                  </button>
+                  <button 
+                    onClick={handleReset}
+                    className="text-xs font-bold uppercase tracking-wider text-emerald-800 hover:text-white hover:bg-emerald-800 border border-emerald-200 hover:border-emerald-800 px-6 py-2.5 rounded-lg transition-all duration-300"
+                  >
+                    New Audit
+                  </button>
                 </div>
-                <button 
-                  onClick={handleReset}
-                  className="text-xs font-bold uppercase tracking-wider text-emerald-800 hover:text-white hover:bg-emerald-800 border border-emerald-200 hover:border-emerald-800 px-6 py-2.5 rounded-lg transition-all duration-300"
-                >
-                  New Audit
-                </button>
              </div>
-             <Dashboard transactions={transactions} />
+             <Dashboard
+               transactions={transactions}
+               statements={statements}
+               sourceDocuments={sourceDocuments}
+               rules={rules}
+               onTransactionsChange={handleLedgerEdit}
+               onUndo={handleUndo}
+               onRedo={handleRedo}
+               canUndo={history.past.length > 0}
+               canRedo={history.future.length > 0}
+               taxInputs={taxInputs}
+               onTaxInputsChange={setTaxInputs}
+               clientName={profile?.name || currentSession?.client}
+               profile={profile}
+               onEditProfile={() => setShowProfile(true)}
+             />
           </div>
         )}
 
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Store } from 'lucide-react';
+import { BusinessProfitLoss as ProfitLoss } from '../types';
+import { getCategoryLabel } from '../services/classificationService';
+
+interface BusinessProfitLossProps {
+  accounts: ProfitLoss;
+  formatter: Intl.NumberFormat;
+}
+
+const BusinessProfitLoss: React.FC<BusinessProfitLossProps> = ({ accounts, formatter }) => {
+  const line = (label: string, amount: number, options: { negative?: boolean; strong?: boolean; muted?: boolean } = {}) => (
+    <div className={`flex justify-between ${options.strong ? 'pt-2 border-t border-slate-100 font-semibold text-slate-900' : options.muted ? 'text-xs text-slate-400 pl-3' : 'text-slate-600'}`}>
+      <span>{label}</span>
+      <span className={`font-mono ${options.negative && !options.muted ? 'text-emerald-600' : ''}`}>
+        {options.negative ? '-' : ''}{formatter.format(amount)}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6">
+      <h3 className="font-semibold text-slate-900 flex items-center gap-2 mb-4">
+        <Store className="w-5 h-5 text-slate-400" />
+        Profit & Loss
+      </h3>
+
+      <div className="space-y-2 text-sm">
+        {line('Turnover', accounts.turnover)}
+        {line('Allowable expenses (WREN)', accounts.allowableExpenses, { negative: true })}
+        {accounts.expensesByCategory.map(e => (
+          <React.Fragment key={e.category}>{line(getCategoryLabel(e.category), e.amount, { muted: true })}</React.Fragment>
+        ))}
+        {line(accounts.netProfit < 0 ? 'Net loss' : 'Net profit', Math.abs(accounts.netProfit), { strong: true, negative: accounts.netProfit < 0 })}
+        {accounts.capitalAllowances.length > 0 && line('Capital allowances', accounts.totalCapitalAllowances - accounts.unabsorbedAllowances, { negative: true })}
+        {accounts.capitalAllowances.map((a, i) => (
+          <React.Fragment key={i}>{line(`${a.assetClass} · ${a.description}`, a.initialAllowance + a.annualAllowance, { muted: true })}</React.Fragment>
+        ))}
+        {line('Assessable profit', accounts.assessableProfit, { strong: true })}
+        {accounts.otherIncome > 0 && line('Other taxable income', accounts.otherIncome)}
+        {line('Total income', accounts.totalIncome, { strong: true })}
+      </div>
+
+      {(accounts.lossCarriedForward > 0 || accounts.unabsorbedAllowances > 0) && (
+        <div className="mt-4 bg-amber-50 p-3 rounded-xl text-xs text-amber-800 space-y-1">
+          {accounts.lossCarriedForward > 0 && <p>Loss of {formatter.format(accounts.lossCarriedForward)} to carry forward against future profits.</p>}
+          {accounts.unabsorbedAllowances > 0 && <p>Unabsorbed capital allowances of {formatter.format(accounts.unabsorbedAllowances)} carried forward.</p>}
+        </div>
+      )}
+
+      <p className="mt-4 text-[11px] text-slate-400 leading-relaxed">
+        Mark debits as WREN expenses or capital items in the transactions table. Unmarked debits are treated as private spending.
+      </p>
+    </div>
+  );
+};
+
+export default BusinessProfitLoss;
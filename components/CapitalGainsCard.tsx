@@ -0,0 +1,55 @@
+import React from 'react';
+import { Landmark } from 'lucide-react';
+import { CapitalGainsSummary } from '../types';
+
+interface CapitalGainsCardProps {
+  summary: CapitalGainsSummary;
+  formatter: Intl.NumberFormat;
+}
+
+const CapitalGainsCard: React.FC<CapitalGainsCardProps> = ({ summary, formatter }) => (
+  <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6">
+    <h3 className="font-semibold text-slate-900 flex items-center gap-2 mb-4">
+      <Landmark className="w-5 h-5 text-slate-400" />
+      Capital Gains · {summary.assessmentYear}
+    </h3>
+
+    <div className="space-y-3 text-sm">
+      {summary.lines.map((line, i) => (
+        <div key={i} className="pb-3 border-b border-slate-50">
+          <div className="flex justify-between">
+            <span className="text-slate-700 font-medium truncate pr-2">{line.assetType}</span>
+            <span className={`font-mono ${line.exempt ? 'text-slate-300 line-through' : line.gain < 0 ? 'text-amber-600' : 'text-slate-900'}`}>
+              {line.gain < 0 ? `(${formatter.format(-line.gain)})` : formatter.format(line.gain)}
+            </span>
+          </div>
+          <div className="text-[10px] text-slate-400 truncate">{line.date} · {line.description}</div>
+          <div className="text-[10px] text-slate-400 font-mono">
+            {formatter.format(line.proceeds)} − {formatter.format(line.acquisitionCost)} cost − {formatter.format(line.incidentalCosts)} incidental
+          </div>
+          {line.exempt && <div className="text-[10px] font-medium text-emerald-600">Exempt: {line.exemptReason}</div>}
+        </div>
+      ))}
+      {summary.allowableLosses > 0 && (
+        <div className="flex justify-between text-slate-500">
+          <span>Losses set off</span>
+          <span className="font-mono text-emerald-600">-{formatter.format(summary.allowableLosses)}</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span className="text-slate-500">Chargeable Gain</span>
+        <span className="font-medium text-slate-900">{formatter.format(summary.chargeableGain)}</span>
+      </div>
+      <div className="pt-2 flex justify-between items-center">
+        <span className="font-semibold text-slate-700">Capital Gains Tax</span>
+        <span className="font-bold text-lg text-slate-900">{formatter.format(summary.tax)}</span>
+      </div>
+    </div>
+
+    <p className="mt-4 text-[11px] text-slate-400 leading-relaxed">
+      {summary.ruleSetName}. Disposal proceeds are left out of gross income for PIT.
+    </p>
+  </div>
+);
+
+export default CapitalGainsCard;
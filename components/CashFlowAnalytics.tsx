@@ -0,0 +1,207 @@
+import React from 'react';
+import {
+  BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid, PieSectorDataItem
+} from 'recharts';
+import { BarChart3, X } from 'lucide-react';
+import { BalancePoint, ExpenseCategory, IncomeCategory, Transaction, TransactionCategory, TransactionFilter, TransactionType } from '../types';
+import { summariseMonthlyCashFlow } from '../services/auditService';
+import { summariseByCategory, topCounterparties, isFilterActive, EMPTY_FILTER } from '../services/analyticsService';
+import { getCategoryLabel } from '../services/classificationService';
+
+interface CashFlowAnalyticsProps {
+  /** Already narrowed by the filter */
+  transactions: Transaction[];
+  balance: BalancePoint[];
+  filter: TransactionFilter;
+  onFilterChange: (filter: TransactionFilter) => void;
+  formatter: Intl.NumberFormat;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const monthLabel = (month: string) => `${MONTH_LABELS[parseInt(month.slice(5, 7), 10) - 1]} ${month.slice(2, 4)}`;
+
+const INCOME_COLOURS = ['#047857', '#059669', '#10b981', '#34d399', '#6ee7b7', '#a7f3d0', '#d1fae5'];
+const EXPENSE_COLOURS = ['#b91c1c', '#dc2626', '#ef4444', '#f87171', '#fca5a5', '#fecaca', '#fee2e2'];
+const AXIS_TICK = { fontSize: 11, fill: '#94a3b8' };
+
+const inputClass = "px-2 py-1.5 bg-slate-50 border-none rounded-md text-xs text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+
+const CashFlowAnalytics: React.FC<CashFlowAnalyticsProps> = ({ transactions, balance, filter, onFilterChange, formatter }) => {
+  const compact = (value: number) => new Intl.NumberFormat('en-NG', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+  const toggleCategory = (category: TransactionCategory) => onFilterChange({
+    ...filter,
+    categories: filter.categories.includes(category)
+      ? filter.categories.filter(c => c !== category)
+      : [...filter.categories, category]
+  });
+
+  const monthly = summariseMonthlyCashFlow(transactions).map(m => ({
+    month: monthLabel(m.month),
+    Inflow: Math.round(m.inflow),
+    Outflow: Math.round(m.outflow)
+  }));
+  const income = summariseByCategory(transactions, TransactionType.CREDIT);
+  const expenses = summariseByCategory(transactions, TransactionType.DEBIT);
+  const counterparties = topCounterparties(transactions);
+  const largest = Math.max(1, ...counterparties.map(c => c.inflow + c.outflow));
+
+  const donut = (title: string, totals: typeof income, colours: string[]) => (
+    <div>
+      <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">{title}</p>
+      {totals.length === 0 ? (
+        <p className="h-48 flex items-center justify-center text-xs text-slate-300">Nothing in range</p>
+      ) : (
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie
+                data={totals.map(t => ({ name: getCategoryLabel(t.category), value: Math.round(t.amount), category: t.category }))}
+                dataKey="value"
+                innerRadius="55%"
+                outerRadius="85%"
+                paddingAngle={1}
+                onClick={(_: PieSectorDataItem, index: number) => toggleCategory(totals[index].category)}
+                className="cursor-pointer"
+              >
+                {totals.map((t, i) => (
+                  <Cell
+                    key={t.category}
+                    fill={colours[i % colours.length]}
+                    opacity={filter.categories.length === 0 || filter.categories.includes(t.category) ? 1 : 0.3}
+                  />
+                ))}
+              </Pie>
+              <Tooltip formatter={(value) => formatter.format(Number(value))} />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-slate-50 space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-slate-400" />
+            Cash-flow Analytics
+          </h3>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+            <input
+              type="date"
+              value={filter.dateFrom ?? ''}
+              onChange={(e) => onFilterChange({ ...filter, dateFrom: e.target.value || undefined })}
+              className={inputClass}
+              title="From"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={filter.dateTo ?? ''}
+              onChange={(e) => onFilterChange({ ...filter, dateTo: e.target.value || undefined })}
+              className={inputClass}
+              title="To"
+            />
+            <select
+              value=""
+              onChange={(e) => e.target.value && toggleCategory(e.target.value as TransactionCategory)}
+              className={inputClass}
+            >
+              <option value="">Add category…</option>
+              <optgroup label="Income">
+                {Object.values(IncomeCategory).filter(c => !filter.categories.includes(c)).map(c => <option key={c} value={c}>{getCategoryLabel(c)}</option>)}
+              </optgroup>
+              <optgroup label="Expense">
+                {Object.values(ExpenseCategory).filter(c => !filter.categories.includes(c)).map(c => <option key={c} value={c}>{getCategoryLabel(c)}</option>)}
+              </optgroup>
+            </select>
+            {isFilterActive(filter) && (
+              <button onClick={() => onFilterChange(EMPTY_FILTER)} className="font-bold uppercase tracking-wider text-emerald-800 hover:underline">
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+        {filter.categories.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {filter.categories.map(category => (
+              <button
+                key={category}
+                onClick={() => toggleCategory(category)}
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-emerald-50 text-[11px] font-medium text-emerald-800 hover:bg-emerald-100"
+              >
+                {getCategoryLabel(category)}
+                <X className="w-3 h-3" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {transactions.length === 0 ? (
+        <p className="p-12 text-center text-sm text-slate-400">No transactions match the filters.</p>
+      ) : (
+        <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div>
+            <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">Monthly inflow vs outflow</p>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={monthly}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="month" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                  <YAxis tick={AXIS_TICK} axisLine={false} tickLine={false} width={50} tickFormatter={compact} />
+                  <Tooltip formatter={(value) => formatter.format(Number(value))} />
+                  <Legend wrapperStyle={{ fontSize: 11 }} />
+                  <Bar dataKey="Inflow" fill="#047857" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="Outflow" fill="#f87171" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">Running balance (all accounts)</p>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={balance}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="date" tick={AXIS_TICK} axisLine={false} tickLine={false} minTickGap={40} />
+                  <YAxis tick={AXIS_TICK} axisLine={false} tickLine={false} width={50} tickFormatter={compact} />
+                  <Tooltip formatter={(value) => formatter.format(Number(value))} />
+                  <Line type="stepAfter" dataKey="balance" name="Balance" stroke="#0f172a" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {donut('Income by category', income, INCOME_COLOURS)}
+            {donut('Expenses by category', expenses, EXPENSE_COLOURS)}
+          </div>
+
+          <div>
+            <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">Top counterparties</p>
+            <ul className="space-y-2">
+              {counterparties.map(c => (
+                <li key={c.name} className="text-xs">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium text-slate-700 truncate" title={c.name}>{c.name}</span>
+                    <span className="font-mono text-slate-500 shrink-0">{formatter.format(c.inflow + c.outflow)} · {c.count}</span>
+                  </div>
+                  <div className="mt-1 h-1.5 flex rounded-full overflow-hidden bg-slate-50">
+                    <div className="bg-emerald-600" style={{ width: `${(c.inflow / largest) * 100}%` }} />
+                    <div className="bg-red-400" style={{ width: `${(c.outflow / largest) * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CashFlowAnalytics;
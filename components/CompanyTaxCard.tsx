@@ -0,0 +1,72 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { CompanyTaxBreakdown } from '../types';
+import { getAssessmentYears } from '../services/taxRules';
+
+interface CompanyTaxCardProps {
+  tax: CompanyTaxBreakdown;
+  onAssessmentYearChange: (year: number) => void;
+  formatter: Intl.NumberFormat;
+}
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+const CompanyTaxCard: React.FC<CompanyTaxCardProps> = ({ tax, onAssessmentYearChange, formatter }) => {
+  const line = (label: React.ReactNode, value: string, className = 'text-slate-900') => (
+    <div className="flex justify-between pb-3 border-b border-slate-50">
+      <span className="text-slate-500">{label}</span>
+      <span className={`font-medium ${className}`}>{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <Building2 className="w-5 h-5 text-slate-400" />
+          Company Tax
+        </h3>
+        <select
+          value={tax.assessmentYear}
+          onChange={(e) => onAssessmentYearChange(parseInt(e.target.value, 10))}
+          className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold text-slate-700 outline-none focus:ring-2 focus:ring-emerald-500/20"
+          title="Assessment Year"
+        >
+          {getAssessmentYears().map(year => (
+            <option key={year} value={year}>YOA {year}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        {line('Turnover', formatter.format(tax.turnover))}
+        {line('Company size', `${tax.size}${tax.smallCompanyExempt ? ' (exempt)' : ''}`, tax.smallCompanyExempt ? 'text-emerald-600' : 'text-slate-900')}
+        {line('Adjusted Profit', formatter.format(tax.adjustedProfit))}
+        {tax.capitalAllowances > 0 && line('Capital Allowances', `-${formatter.format(tax.capitalAllowances)}`, 'text-emerald-600')}
+        {line('Total Profit', formatter.format(tax.totalProfitAfterAllowances))}
+        {line(`CIT at ${formatRate(tax.citRate)}`, formatter.format(tax.cit), tax.minimumTaxApplied ? 'text-slate-300 line-through' : 'text-slate-900')}
+        {tax.minimumTax !== undefined && line(
+          <>
+            Minimum tax
+            <span className="block text-[10px]">
+              {tax.minimumTaxApplied ? 'Applies: higher than CIT on profit' : 'Not applicable: lower than CIT on profit'}
+            </span>
+          </>,
+          formatter.format(tax.minimumTax),
+          tax.minimumTaxApplied ? 'text-amber-700' : 'text-slate-300'
+        )}
+        {line(`${tax.educationTaxLabel} at ${formatRate(tax.educationTaxRate)}`, formatter.format(tax.educationTax))}
+        <div className="pt-2 flex justify-between items-center">
+          <span className="font-semibold text-slate-700">Total Tax Payable</span>
+          <span className="font-bold text-lg text-slate-900">{formatter.format(tax.totalTax)}</span>
+        </div>
+      </div>
+
+      <div className="mt-6 bg-blue-50 p-4 rounded-xl text-xs text-blue-700 leading-relaxed">
+        <strong>Note:</strong> Calculation applies {tax.ruleSetName} for the {tax.assessmentYear} year of assessment. Size is judged on turnover from the statement alone; other tests such as fixed assets or professional services are not checked.
+      </div>
+    </div>
+  );
+};
+
+export default CompanyTaxCard;
@@ -1,15 +1,113 @@
-import React, { useState } from 'react';
-import { Transaction, TransactionType, TaxBreakdown } from '../types';
-import { Download, TrendingUp, TrendingDown, ArrowDownLeft, ArrowUpRight, Search, FileText } from 'lucide-react';
-import { calculateNigerianPIT } from '../services/geminiService';
+import React, { useState, useEffect } from 'react';
+import {
+  Transaction,
+  TransactionType,
+  TaxBreakdown,
+  ReliefType,
+  IncomeCategory,
+  ExpenseCategory,
+  TransactionCategory,
+  CategorisationRule,
+  StatementFile,
+  TransactionDraft,
+  SplitPart,
+  TaxInputs,
+  TaxMode,
+  AssetClass,
+  VatTreatment,
+  DisposalDetails,
+  TaxpayerProfile,
+  TransactionFilter,
+  SourceDocument
+} from '../types';
+import { Download, TrendingUp, TrendingDown, ArrowDownLeft, ArrowUpRight, Search, FileText, Repeat, Plus, Pencil, Scissors, Trash2, Undo2, Redo2, FileDown, Landmark, CalendarClock, FlaskConical, AlertTriangle } from 'lucide-react';
+import { computeTaxBreakdown, detectStatutoryDeductions, defaultTaxInputs, sumTaxableIncome } from '../services/taxService';
+import { computeBusinessProfitLoss } from '../services/businessService';
+import { calculateCompanyTax } from '../services/companyTaxService';
+import { computeVatReturn } from '../services/vatService';
+import { computeWithholdingCredits } from '../services/withholdingService';
+import { computeCapitalGains } from '../services/capitalGainsService';
+import { getFilingDeadline } from '../services/filingService';
+import { downloadBlob } from '../services/downloadService';
+import { computeRunningBalance, filterTransactions, EMPTY_FILTER } from '../services/analyticsService';
+import { getAssessmentYears, getTaxRuleSet, VAT_RATES, WITHHOLDING_RATES } from '../services/taxRules';
+import { isTaxableIncome, getCategoryLabel, classifyTransaction } from '../services/classificationService';
+import { reconcileAccounts } from '../services/reconciliationService';
+import { generateComputationReport } from '../services/reportService';
+import { computePayeSchedule } from '../services/payeService';
+import { addTransaction, deleteTransaction, editTransaction, splitTransaction } from '../services/ledgerService';
+import { reviewTransactions } from '../services/reviewService';
+import DeductionsForm from './DeductionsForm';
+import ReconciliationBanner from './ReconciliationBanner';
+import TransactionForm from './TransactionForm';
+import SplitTransactionForm from './SplitTransactionForm';
+import TaxWorkings from './TaxWorkings';
+import PayeReview from './PayeReview';
+import BusinessProfitLoss from './BusinessProfitLoss';
+import CompanyTaxCard from './CompanyTaxCard';
+import VatReturn from './VatReturn';
+import DisposalForm from './DisposalForm';
+import CapitalGainsCard from './CapitalGainsCard';
+import CashFlowAnalytics from './CashFlowAnalytics';
+import ScenarioPlanner from './ScenarioPlanner';
+import SourceViewer from './SourceViewer';
 
 interface DashboardProps {
   transactions: Transaction[];
+  statements: StatementFile[];
+  sourceDocuments: Record<string, SourceDocument>;
+  rules: CategorisationRule[];
+  onTransactionsChange: (transactions: Transaction[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Null until the user changes a tax input; defaults are then derived from the transactions */
+  taxInputs: TaxInputs | null;
+  onTaxInputsChange: (inputs: TaxInputs) => void;
+  /** Taxpayer named on the computation report */
+  clientName?: string;
+  profile: TaxpayerProfile | null;
+  onEditProfile: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const Dashboard: React.FC<DashboardProps> = ({ transactions, statements, sourceDocuments, rules, onTransactionsChange, onUndo, onRedo, canUndo, canRedo, taxInputs, onTaxInputsChange, clientName, profile, onEditProfile }) => {
   const [currencyFormatter] = useState(new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN' }));
   const [searchTerm, setSearchTerm] = useState('');
+  const [filter, setFilter] = useState<TransactionFilter>(EMPTY_FILTER);
+  const [showPlanner, setShowPlanner] = useState(false);
+  const inputs = taxInputs ?? defaultTaxInputs(transactions);
+  const { assessmentYear, annualRent, deductions } = inputs;
+  const mode = inputs.mode ?? TaxMode.ANNUAL;
+  const detectedDeductions = detectStatutoryDeductions(transactions);
+  const updateTaxInputs = (changes: Partial<TaxInputs>) => onTaxInputsChange({ ...inputs, ...changes });
+  const [editingRow, setEditingRow] = useState<Transaction | null>(null);
+  const [splittingRow, setSplittingRow] = useState<Transaction | null>(null);
+  const [disposalRow, setDisposalRow] = useState<Transaction | null>(null);
+  const [viewingRow, setViewingRow] = useState<Transaction | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) step through ledger edits, except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  const ruleSet = getTaxRuleSet(assessmentYear);
 
   const totalCredit = transactions
     .filter(t => t.type === TransactionType.CREDIT)
@@ -19,46 +117,206 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
     .filter(t => t.type === TransactionType.DEBIT)
     .reduce((sum, t) => sum + t.amount, 0);
 
-  // Calculate Tax using Nigerian Logic
-  const taxData: TaxBreakdown = calculateNigerianPIT(totalCredit);
+  // Only taxable income categories count; transfers, loans, reversals and gifts are excluded
+  const taxableCredit = sumTaxableIncome(transactions);
+
+  // Calculate Tax using the rule set for the selected assessment year
+  const taxData: TaxBreakdown = computeTaxBreakdown(transactions, inputs);
+  const businessAccounts = mode === TaxMode.BUSINESS || mode === TaxMode.COMPANY ? computeBusinessProfitLoss(transactions) : undefined;
+  const withholding = computeWithholdingCredits(transactions);
+  const deadline = getFilingDeadline(profile, mode, assessmentYear);
+  const daysToDeadline = Math.ceil((new Date(`${deadline.date}T23:59:59`).getTime() - Date.now()) / DAY_MS);
+  // A company is charged CIT on the same profit-and-loss instead of PIT, and its gains are taxed within CIT rather than under CGT
+  const capitalGains = mode === TaxMode.COMPANY ? undefined : computeCapitalGains(transactions, assessmentYear, taxData.taxableIncome);
+  const companyTax = mode === TaxMode.COMPANY && businessAccounts ? calculateCompanyTax(businessAccounts, assessmentYear) : undefined;
+
+  // Encoded as "WREN", "CAPITAL:<asset class>" or "" for private spending
+  const handleTreatmentChange = (target: Transaction, value: string) => {
+    const [treatment, assetClass] = value.split(':');
+    onTransactionsChange(transactions.map(t => t === target
+      ? {
+          ...t,
+          expenseTreatment: treatment === 'WREN' || treatment === 'CAPITAL' ? treatment : undefined,
+          assetClass: treatment === 'CAPITAL' ? assetClass as AssetClass : undefined
+        }
+      : t
+    ));
+  };
+
+  // A manual tag replaces whatever a rule assigned to the row
+  // Picking "No" by hand also stops a rule from flagging the row again
+  const handleWithholdingChange = (target: Transaction, withholdingRate: number | undefined) => {
+    onTransactionsChange(transactions.map(t => t === target ? { ...t, withholdingRate, withholdingSource: 'USER' } : t));
+  };
+
+  const handleCreditNoteChange = (target: Transaction, reference: string) => {
+    const whtCreditNote = reference.trim() || undefined;
+    if (whtCreditNote === target.whtCreditNote) return;
+    onTransactionsChange(transactions.map(t => t === target ? { ...t, whtCreditNote } : t));
+  };
+
+  const handleDisposal = (target: Transaction, disposal: DisposalDetails | undefined) => {
+    onTransactionsChange(transactions.map(t => t === target ? { ...t, disposal } : t));
+    setDisposalRow(null);
+  };
+
+  const handleVatChange = (target: Transaction, vat: VatTreatment | undefined) => {
+    onTransactionsChange(transactions.map(t => t === target ? { ...t, vat } : t));
+  };
+
+  const handleCategoryChange = (target: Transaction, category: TransactionCategory) => {
+    onTransactionsChange(transactions.map(t =>
+      t === target ? { ...t, category, categorySource: 'USER', taxable: undefined, ruleId: undefined } : t
+    ));
+  };
+
+  const handleEdit = (target: Transaction, draft: TransactionDraft) => {
+    onTransactionsChange(editTransaction(transactions, target, draft));
+    setEditingRow(null);
+  };
 
-  const filteredTransactions = transactions.filter(t => 
+  const handleAdd = (draft: TransactionDraft, statementId?: string) => {
+    const statement = statements.find(s => s.id === statementId);
+    onTransactionsChange(addTransaction(transactions, draft, statement && { sourceFile: statement.id, sourceAccount: statement.account }));
+    setIsAdding(false);
+  };
+
+  const handleSplit = (target: Transaction, parts: SplitPart[]) => {
+    onTransactionsChange(splitTransaction(transactions, target, parts));
+    setSplittingRow(null);
+  };
+
+  const ruleNames = new Map(rules.map(r => [r.id, r.name]));
+
+  // Each account is reconciled across all of its statements
+  const reconciliations = reconcileAccounts(statements, transactions);
+  const breakRows = new Set(reconciliations.flatMap(r => r.result.breaks.map(b => r.rows[b.index])));
+  const reviewFlags = reviewTransactions(transactions);
+  const multiAccount = reconciliations.length > 1;
+
+  // The date-range and category filters drive the charts and the table; search narrows the table only
+  const inFilter = filterTransactions(transactions, filter);
+  const filteredTransactions = inFilter.filter(t => 
     t.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
     t.amount.toString().includes(searchTerm)
   );
+  // The balance is run over every row, then cut to the date range
+  const runningBalance = computeRunningBalance(transactions, statements)
+    .filter(p => (!filter.dateFrom || p.date >= filter.dateFrom) && (!filter.dateTo || p.date <= filter.dateTo));
 
   const handleExportCSV = () => {
-    const headers = ['Date', 'Description', 'Type', 'Amount (NGN)'];
+    const headers = ['Date', 'Account', 'Description', 'Type', 'Category', 'Amount (NGN)'];
     const rows = transactions.map(t => [
       t.date,
+      `"${(t.sourceAccount ?? '').replace(/"/g, '""')}"`,
       `"${t.description.replace(/"/g, '""')}"`,
       t.type,
+      t.category ? getCategoryLabel(t.category) : '',
       t.amount.toFixed(2)
     ]);
     const csvContent = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    if (link.download !== undefined) {
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', 'nairasync_export.csv');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), 'nairasync_export.csv');
+  };
+
+  const handleDownloadReport = async () => {
+    try {
+      const pdf = await generateComputationReport({
+        taxpayerName: clientName,
+        accounts: statements.map(s => s.account),
+        transactions,
+        tax: taxData,
+        profile: profile ?? undefined,
+        taxAuthority: deadline.authority,
+        businessAccounts
+      });
+      downloadBlob(new Blob([pdf], { type: 'application/pdf' }), `nairasync_computation_${taxData.assessmentYear}.pdf`);
+    } catch (error: any) {
+      alert(error.message || "Could not generate the computation report.");
+      console.error(error);
     }
   };
 
   return (
     <div className="space-y-8">
+      {viewingRow && (
+        <SourceViewer
+          transaction={viewingRow}
+          statement={statements.find(s => s.id === viewingRow.sourceFile)}
+          source={viewingRow.sourceFile ? sourceDocuments[viewingRow.sourceFile] : undefined}
+          flags={reviewFlags.get(viewingRow) ?? []}
+          formatter={currencyFormatter}
+          onClose={() => setViewingRow(null)}
+        />
+      )}
+
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-400">Mode</span>
+        <div className="flex bg-white p-1 rounded-lg border border-slate-200 shadow-sm">
+          {Object.values(TaxMode).map(option => (
+            <button
+              key={option}
+              onClick={() => updateTaxInputs({ mode: option })}
+              className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all duration-300
+                ${mode === option ? 'bg-emerald-50 text-emerald-800 shadow-sm ring-1 ring-emerald-200' : 'text-slate-500 hover:text-slate-700'}
+              `}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-4 rounded-xl border text-sm
+        ${daysToDeadline < 0 ? 'bg-red-50 border-red-100 text-red-800' : daysToDeadline <= 30 ? 'bg-amber-50 border-amber-100 text-amber-800' : 'bg-white border-slate-100 text-slate-600'}
+      `}>
+        <div className="flex items-start gap-3">
+          <CalendarClock className="w-5 h-5 shrink-0 mt-0.5" />
+          <div>
+            <p>
+              <span className="font-semibold">{deadline.label}</span> for {assessmentYear} due{' '}
+              <span className="font-semibold">{new Date(`${deadline.date}T00:00:00`).toLocaleDateString('en-NG', { day: 'numeric', month: 'long', year: 'numeric' })}</span>
+              {' · '}
+              {daysToDeadline < 0 ? `${-daysToDeadline} days overdue` : daysToDeadline === 0 ? 'due today' : `${daysToDeadline} days left`}
+            </p>
+            <p className="text-xs opacity-80 mt-0.5">
+              {deadline.authority ? `File with the ${deadline.authority.name} (${deadline.authority.abbreviation}).` : 'Set the State of residence to see which authority collects this PIT.'}
+              {deadline.note && ` ${deadline.note}`}
+            </p>
+          </div>
+        </div>
+        <button onClick={onEditProfile} className="shrink-0 text-xs font-bold uppercase tracking-wider text-emerald-800 hover:underline">
+          {profile ? 'Edit profile' : 'Set up profile'}
+        </button>
+      </div>
+
+      {statements.some(s => s.summary.sampleData) && (
+        <div className="flex items-center gap-3 p-4 bg-amber-50 border border-amber-200 rounded-2xl text-sm text-amber-900">
+          <AlertTriangle className="w-5 h-5 shrink-0 text-amber-600" />
+          <span>
+            <strong>Sample data.</strong> Some statements were read by the demo engine, which returns canned rows instead of the file's contents. Do not file from these figures.
+          </span>
+        </div>
+      )}
+
+      {reconciliations.map(r => (
+        <ReconciliationBanner
+          key={r.account}
+          result={r.result}
+          transactions={r.rows}
+          formatter={currencyFormatter}
+          account={multiAccount ? r.account : undefined}
+        />
+      ))}
+
       {/* Financial Summary */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="p-6 bg-white rounded-2xl border border-slate-100 shadow-[0_2px_10px_-4px_rgba(6,81,237,0.1)]">
           <p className="text-sm font-medium text-slate-500 mb-1">Total Inflow</p>
           <div className="flex items-baseline gap-2">
             <h3 className="text-2xl font-bold text-slate-900">{currencyFormatter.format(totalCredit)}</h3>
-            <span className="flex items-center text-xs font-medium text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full">
+            <span className="flex items-center text-xs font-medium text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full" title="Share of inflow that is taxable income">
               <TrendingUp className="w-3 h-3 mr-1" />
-              100%
+              {(totalCredit > 0 ? (taxableCredit / totalCredit) * 100 : 0).toFixed(1)}% taxable
             </span>
           </div>
         </div>
@@ -76,45 +334,181 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
 
         <div className="p-6 bg-slate-900 text-white rounded-2xl shadow-xl shadow-slate-200">
           <p className="text-sm font-medium text-slate-400 mb-1">Tax Liability (Est.)</p>
-          <h3 className="text-2xl font-bold">{currencyFormatter.format(taxData.totalTax)}</h3>
+          <h3 className="text-2xl font-bold">{currencyFormatter.format(companyTax ? companyTax.totalTax : taxData.netTaxPayable)}</h3>
+          {capitalGains && capitalGains.tax > 0 && (
+            <p className="text-xs text-slate-400 mt-1">Plus {currencyFormatter.format(capitalGains.tax)} capital gains tax</p>
+          )}
+          {!companyTax && taxData.withholdingCredit > 0 && (
+            <p className="text-xs text-slate-400 mt-1">
+              {currencyFormatter.format(taxData.totalTax)} before {currencyFormatter.format(taxData.withholdingCredit)} WHT credits
+            </p>
+          )}
           <p className="text-xs text-slate-400 mt-2">
-            Effective Rate: <span className="text-emerald-400">{taxData.effectiveRate.toFixed(1)}%</span>
+            Effective Rate: <span className="text-emerald-400">{(companyTax ? companyTax.effectiveRate : taxData.effectiveRate).toFixed(1)}%</span>
+            <span className="mx-2 text-slate-600">·</span>
+            {companyTax ? 'CIT Rate' : 'Marginal'}: <span className="text-emerald-400">{Number((companyTax ? companyTax.citRate * 100 : taxData.marginalRate).toFixed(2))}%</span>
           </p>
         </div>
       </div>
 
+      <CashFlowAnalytics
+        transactions={inFilter}
+        balance={runningBalance}
+        filter={filter}
+        onFilterChange={setFilter}
+        formatter={currencyFormatter}
+      />
+
+      {mode === TaxMode.PAYE && (
+        <PayeReview
+          summary={computePayeSchedule(transactions, assessmentYear, inputs.payslips)}
+          payslips={inputs.payslips ?? []}
+          onPayslipsChange={(payslips) => updateTaxInputs({ payslips })}
+          formatter={currencyFormatter}
+        />
+      )}
+
+      {businessAccounts && (
+        <VatReturn
+          summary={computeVatReturn(transactions, inputs.vatRates ?? VAT_RATES)}
+          rates={inputs.vatRates ?? VAT_RATES}
+          onRatesChange={(vatRates) => updateTaxInputs({ vatRates })}
+          formatter={currencyFormatter}
+        />
+      )}
+
+      {showPlanner && !companyTax && (
+        <ScenarioPlanner
+          baseline={taxData}
+          inputs={inputs}
+          scenarios={inputs.scenarios ?? []}
+          onScenariosChange={(scenarios) => updateTaxInputs({ scenarios })}
+          formatter={currencyFormatter}
+        />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Tax Breakdown Card */}
         <div className="lg:col-span-1 space-y-6">
-          <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6">
-            <h3 className="font-semibold text-slate-900 mb-6 flex items-center gap-2">
-              <FileText className="w-5 h-5 text-slate-400" />
-              Tax Computation
-            </h3>
-            
-            <div className="space-y-4 text-sm">
-              <div className="flex justify-between pb-3 border-b border-slate-50">
-                <span className="text-slate-500">Gross Income</span>
-                <span className="font-medium text-slate-900">{currencyFormatter.format(taxData.grossIncome)}</span>
-              </div>
-              <div className="flex justify-between pb-3 border-b border-slate-50">
-                <span className="text-slate-500">Consolidated Relief</span>
-                <span className="font-medium text-emerald-600">-{currencyFormatter.format(taxData.consolidatedRelief)}</span>
+          {businessAccounts && <BusinessProfitLoss accounts={businessAccounts} formatter={currencyFormatter} />}
+          {capitalGains && capitalGains.lines.length > 0 && <CapitalGainsCard summary={capitalGains} formatter={currencyFormatter} />}
+          {companyTax ? (
+            <CompanyTaxCard
+              tax={companyTax}
+              onAssessmentYearChange={(year) => updateTaxInputs({ assessmentYear: year })}
+              formatter={currencyFormatter}
+            />
+          ) : (
+            <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+                  <FileText className="w-5 h-5 text-slate-400" />
+                  Tax Computation
+                </h3>
+                <select
+                  value={assessmentYear}
+                  onChange={(e) => updateTaxInputs({ assessmentYear: parseInt(e.target.value, 10) })}
+                  className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold text-slate-700 outline-none focus:ring-2 focus:ring-emerald-500/20"
+                  title="Assessment Year"
+                >
+                  {getAssessmentYears().map(year => (
+                    <option key={year} value={year}>YOA {year}</option>
+                  ))}
+                </select>
               </div>
-              <div className="flex justify-between pb-3 border-b border-slate-50">
-                <span className="text-slate-500">Taxable Income</span>
-                <span className="font-medium text-slate-900">{currencyFormatter.format(taxData.taxableIncome)}</span>
+
+              {ruleSet.relief.kind === 'RENT' && (
+                <label className="block mb-4 text-xs font-medium text-slate-500">
+                  Annual Rent Paid
+                  <input
+                    type="number"
+                    min={0}
+                    value={annualRent || ''}
+                    onChange={(e) => updateTaxInputs({ annualRent: Math.max(0, Number(e.target.value) || 0) })}
+                    placeholder="0"
+                    className="mt-1 w-full px-3 py-2 bg-slate-50 border-none rounded-lg text-sm text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                  />
+                </label>
+              )}
+
+              <DeductionsForm deductions={deductions} detected={detectedDeductions} onChange={(next) => updateTaxInputs({ deductions: next })} />
+            
+              <div className="space-y-4 text-sm">
+                <div className="flex justify-between pb-3 border-b border-slate-50">
+                  <span className="text-slate-500">{businessAccounts ? 'Total Income' : 'Gross Income'}</span>
+                  <span className="font-medium text-slate-900">
+                    {currencyFormatter.format(taxData.grossIncome)}
+                    {taxData.withholdingCredit > 0 && (
+                      <span className="block text-[10px] text-right text-slate-400">incl. {currencyFormatter.format(taxData.withholdingCredit)} WHT gross-up</span>
+                    )}
+                  </span>
+                </div>
+                {!businessAccounts && totalCredit > taxableCredit && (
+                  <div className="flex justify-between pb-3 border-b border-slate-50 text-xs">
+                    <span className="text-slate-400">Non-taxable inflows excluded</span>
+                    <span className="font-medium text-slate-400">{currencyFormatter.format(totalCredit - taxableCredit)}</span>
+                  </div>
+                )}
+                {taxData.reliefs.map(relief => (
+                  <div key={relief.type} className="flex justify-between pb-3 border-b border-slate-50">
+                    <span className="text-slate-500">
+                      {relief.label}
+                      {relief.allowed < relief.claimed && relief.type !== ReliefType.RENT && (
+                        <span className="block text-[10px] text-amber-600">Capped from {currencyFormatter.format(relief.claimed)}</span>
+                      )}
+                    </span>
+                    <span className="font-medium text-emerald-600">-{currencyFormatter.format(relief.allowed)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between pb-3 border-b border-slate-50">
+                  <span className="text-slate-500">Taxable Income</span>
+                  <span className="font-medium text-slate-900">{currencyFormatter.format(taxData.taxableIncome)}</span>
+                </div>
+                <div className="pt-2 flex justify-between items-center">
+                  <span className="font-semibold text-slate-700">{taxData.withholdingCredit > 0 ? 'Tax Before Credits' : 'Total Tax Payable'}</span>
+                  <span className="font-bold text-lg text-slate-900">{currencyFormatter.format(taxData.totalTax)}</span>
+                </div>
+                {taxData.withholdingCredit > 0 && (
+                  <>
+                    <div className="flex justify-between pb-3 border-b border-slate-50">
+                      <span className="text-slate-500">
+                        Less: WHT Credits ({withholding.lines.length})
+                        {withholding.missingCreditNotes > 0 && (
+                          <span className="block text-[10px] text-amber-600">{withholding.missingCreditNotes} without a credit note reference</span>
+                        )}
+                      </span>
+                      <span className="font-medium text-emerald-600">-{currencyFormatter.format(taxData.withholdingCredit)}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="font-semibold text-slate-700">{taxData.netTaxPayable < 0 ? 'WHT Credit in Excess' : 'Net Tax Payable'}</span>
+                      <span className="font-bold text-lg text-slate-900">{currencyFormatter.format(Math.abs(taxData.netTaxPayable))}</span>
+                    </div>
+                  </>
+                )}
+                <TaxWorkings tax={taxData} formatter={currencyFormatter} />
               </div>
-              <div className="pt-2 flex justify-between items-center">
-                <span className="font-semibold text-slate-700">Total Tax Payable</span>
-                <span className="font-bold text-lg text-slate-900">{currencyFormatter.format(taxData.totalTax)}</span>
+
+              <div className="mt-6 bg-blue-50 p-4 rounded-xl text-xs text-blue-700 leading-relaxed">
+                <strong>Note:</strong> Calculation applies the {taxData.ruleSetName} graduated scale for the {taxData.assessmentYear} year of assessment on taxable income after standard reliefs.
+                {taxData.minimumTaxApplied && ' The PITA minimum tax on gross income applies because it exceeds the tax on bands.'}
               </div>
-            </div>
 
-            <div className="mt-6 bg-blue-50 p-4 rounded-xl text-xs text-blue-700 leading-relaxed">
-              <strong>Note:</strong> Calculation applies the Nigerian Personal Income Tax Act (PITA) graduated scale on taxable income after standard reliefs.
+              <button
+                onClick={handleDownloadReport}
+                className="mt-4 w-full flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-emerald-800 hover:text-white hover:bg-emerald-800 border border-emerald-200 hover:border-emerald-800 px-4 py-2.5 rounded-lg transition-all duration-300"
+              >
+                <FileDown className="w-4 h-4" />
+                Computation Report (PDF)
+              </button>
+              <button
+                onClick={() => setShowPlanner(!showPlanner)}
+                className="mt-2 w-full flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-emerald-800 hover:bg-emerald-50 px-4 py-2.5 rounded-lg transition-all duration-300"
+              >
+                <FlaskConical className="w-4 h-4" />
+                {showPlanner ? 'Hide What-if Planner' : 'What-if Planner'}
+              </button>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Transactions List */}
@@ -123,6 +517,29 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
             <div className="p-6 border-b border-slate-50 flex flex-col sm:flex-row justify-between gap-4">
               <h3 className="font-semibold text-slate-900">Transactions</h3>
               <div className="flex gap-2">
+                <button
+                  onClick={onUndo}
+                  disabled={!canUndo}
+                  className="p-2 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={onRedo}
+                  disabled={!canRedo}
+                  className="p-2 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-500"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={() => setIsAdding(true)}
+                  className="p-2 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors"
+                  title="Add transaction"
+                >
+                  <Plus className="w-5 h-5" />
+                </button>
                 <div className="relative">
                   <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
                   <input 
@@ -150,15 +567,157 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
                     <th className="px-6 py-3">Date</th>
                     <th className="px-6 py-3">Description</th>
                     <th className="px-6 py-3 text-right">Amount</th>
+                    <th className="w-24"></th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-50">
-                  {filteredTransactions.map((t, idx) => (
-                    <tr key={idx} className="group hover:bg-slate-50 transition-colors">
+                  {isAdding && (
+                    <tr className="bg-emerald-50/40">
+                      <td colSpan={4} className="px-6 py-4">
+                        <TransactionForm statements={statements} onSave={handleAdd} onCancel={() => setIsAdding(false)} />
+                      </td>
+                    </tr>
+                  )}
+                  {filteredTransactions.map((t, idx) => t === editingRow || t === splittingRow || t === disposalRow ? (
+                    <tr key={idx} className="bg-emerald-50/40">
+                      <td colSpan={4} className="px-6 py-4">
+                        {t === editingRow ? (
+                          <TransactionForm
+                            initial={{ date: t.date, description: t.description, amount: t.amount, type: t.type }}
+                            onSave={(draft) => handleEdit(t, draft)}
+                            onCancel={() => setEditingRow(null)}
+                          />
+                        ) : t === splittingRow ? (
+                          <SplitTransactionForm
+                            transaction={t}
+                            formatter={currencyFormatter}
+                            onSplit={(parts) => handleSplit(t, parts)}
+                            onCancel={() => setSplittingRow(null)}
+                          />
+                        ) : (
+                          <DisposalForm
+                            transaction={t}
+                            purchases={transactions.filter(p => p.type === TransactionType.DEBIT && p.date <= t.date)}
+                            formatter={currencyFormatter}
+                            onSave={(disposal) => handleDisposal(t, disposal)}
+                            onCancel={() => setDisposalRow(null)}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr
+                      key={idx}
+                      onClick={(e) => {
+                        // The row's own controls keep their clicks
+                        if (!t.manual && !(e.target as HTMLElement).closest('button, select, input')) setViewingRow(t);
+                      }}
+                      className={`group transition-colors ${!t.manual ? 'cursor-pointer' : ''}
+                        ${breakRows.has(t) ? 'bg-amber-50 hover:bg-amber-100/60' : reviewFlags.has(t) ? 'bg-orange-50/60 hover:bg-orange-100/60' : 'hover:bg-slate-50'}
+                      `}
+                      title={breakRows.has(t) ? 'Running balance does not match at this row' : reviewFlags.get(t)?.join('; ')}
+                    >
                       <td className="px-6 py-4 text-slate-500 whitespace-nowrap font-mono text-xs">{t.date}</td>
                       <td className="px-6 py-4">
                         <div className="font-medium text-slate-800">{t.description}</div>
-                        <div className="text-xs text-slate-400 mt-0.5">{t.type}</div>
+                        <div className="flex items-center gap-2 text-xs text-slate-400 mt-0.5">
+                          {multiAccount && t.sourceAccount && (
+                            <span className="px-1.5 py-0.5 rounded bg-slate-100 text-[10px] font-medium text-slate-500">{t.sourceAccount}</span>
+                          )}
+                          <span>{t.type}</span>
+                          <select
+                            value={t.category ?? classifyTransaction(t)}
+                            onChange={(e) => handleCategoryChange(t, e.target.value as TransactionCategory)}
+                            className={`bg-transparent border-none outline-none cursor-pointer font-medium
+                              ${isTaxableIncome(t) ? 'text-emerald-700' : 'text-slate-400'}
+                            `}
+                            title={t.categorySource === 'USER' ? 'Set manually' : t.categorySource === 'RULE' ? 'Set by rule' : 'Detected automatically'}
+                          >
+                            {Object.values<TransactionCategory>(t.type === TransactionType.CREDIT ? IncomeCategory : ExpenseCategory).map(category => (
+                              <option key={category} value={category}>{getCategoryLabel(category)}</option>
+                            ))}
+                          </select>
+                          {t.ruleId && (
+                            <span className="px-1.5 py-0.5 rounded bg-slate-100 text-[10px] font-medium text-slate-500">
+                              Rule: {ruleNames.get(t.ruleId) ?? 'Deleted rule'}
+                            </span>
+                          )}
+                          {t.transferPairId && (
+                            <span
+                              className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-sky-50 text-[10px] font-medium text-sky-700"
+                              title="Matched with a transfer of the same amount in another uploaded account; excluded from income"
+                            >
+                              <Repeat className="w-2.5 h-2.5" />
+                              Inter-account transfer
+                            </span>
+                          )}
+                          {t.counterparty && <span>· {t.counterparty}</span>}
+                          {businessAccounts && t.type === TransactionType.DEBIT && (
+                            <select
+                              value={t.expenseTreatment === 'CAPITAL' ? `CAPITAL:${t.assetClass}` : t.expenseTreatment ?? ''}
+                              onChange={(e) => handleTreatmentChange(t, e.target.value)}
+                              className={`bg-transparent border-none outline-none cursor-pointer font-medium ${t.expenseTreatment ? 'text-emerald-700' : 'text-slate-400'}`}
+                              title="Business treatment"
+                            >
+                              <option value="">Private</option>
+                              <option value="WREN">Business expense (WREN)</option>
+                              {Object.values(AssetClass).map(assetClass => (
+                                <option key={assetClass} value={`CAPITAL:${assetClass}`}>Capital: {assetClass}</option>
+                              ))}
+                            </select>
+                          )}
+                          {isTaxableIncome(t) && (
+                            <select
+                              value={t.withholdingRate ?? ''}
+                              onChange={(e) => handleWithholdingChange(t, e.target.value === '' ? undefined : Number(e.target.value))}
+                              className={`bg-transparent border-none outline-none cursor-pointer font-medium ${t.withholdingRate ? 'text-amber-700' : 'text-slate-400'}`}
+                              title={t.withholdingSource === 'RULE' ? 'Received net of WHT (set by rule)' : 'Received net of WHT'}
+                            >
+                              <option value="">No WHT</option>
+                              {WITHHOLDING_RATES.map(rate => (
+                                <option key={rate} value={rate}>Net of {rate * 100}% WHT</option>
+                              ))}
+                            </select>
+                          )}
+                          {isTaxableIncome(t) && t.withholdingRate !== undefined && (
+                            <input
+                              key={t.whtCreditNote ?? ''}
+                              defaultValue={t.whtCreditNote ?? ''}
+                              onBlur={(e) => handleCreditNoteChange(t, e.target.value)}
+                              placeholder="Credit note ref."
+                              className="w-28 px-1.5 py-0.5 bg-slate-50 border-none rounded text-[10px] font-mono text-slate-700 outline-none focus:ring-2 focus:ring-emerald-500/20"
+                            />
+                          )}
+                          {businessAccounts && (
+                            <select
+                              value={t.vat ?? ''}
+                              onChange={(e) => handleVatChange(t, (e.target.value || undefined) as VatTreatment | undefined)}
+                              className={`bg-transparent border-none outline-none cursor-pointer font-medium ${t.vat ? 'text-amber-700' : 'text-slate-400'}`}
+                              title="VAT treatment"
+                            >
+                              <option value="">No VAT</option>
+                              {Object.values(VatTreatment).map(vat => (
+                                <option key={vat} value={vat}>VAT: {vat}</option>
+                              ))}
+                            </select>
+                          )}
+                          {t.disposal && (
+                            <span className="px-1.5 py-0.5 rounded bg-indigo-50 text-[10px] font-medium text-indigo-700">
+                              Disposal · {t.disposal.assetType}
+                            </span>
+                          )}
+                          {reviewFlags.has(t) && (
+                            <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-orange-50 text-[10px] font-medium text-orange-700">
+                              <AlertTriangle className="w-2.5 h-2.5" />
+                              {reviewFlags.get(t)!.length === 1 ? reviewFlags.get(t)![0] : `${reviewFlags.get(t)!.length} checks`}
+                            </span>
+                          )}
+                          {(t.edited || t.manual) && (
+                            <span className="px-1.5 py-0.5 rounded bg-violet-50 text-[10px] font-medium text-violet-700">
+                              {t.manual ? 'Added manually' : 'Edited'}
+                            </span>
+                          )}
+                        </div>
                       </td>
                       <td className="px-6 py-4 text-right">
                         <div className={`inline-flex items-center gap-1 font-mono font-medium
@@ -167,12 +726,33 @@ const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
                           {t.type === TransactionType.CREDIT ? <ArrowDownLeft className="w-3 h-3" /> : <ArrowUpRight className="w-3 h-3 text-slate-400" />}
                           {currencyFormatter.format(t.amount)}
                         </div>
+                        {t.balance !== undefined && (
+                          <div className="text-[10px] text-slate-400 font-mono mt-0.5">Bal {currencyFormatter.format(t.balance)}</div>
+                        )}
+                      </td>
+                      <td className="pr-4 text-right whitespace-nowrap">
+                        <div className="inline-flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                          <button onClick={() => { setSplittingRow(null); setDisposalRow(null); setEditingRow(t); }} className="p-1.5 text-slate-400 hover:text-emerald-700 hover:bg-emerald-50 rounded-md" title="Edit">
+                            <Pencil className="w-3.5 h-3.5" />
+                          </button>
+                          <button onClick={() => { setEditingRow(null); setDisposalRow(null); setSplittingRow(t); }} className="p-1.5 text-slate-400 hover:text-emerald-700 hover:bg-emerald-50 rounded-md" title="Split">
+                            <Scissors className="w-3.5 h-3.5" />
+                          </button>
+                          {t.type === TransactionType.CREDIT && (
+                            <button onClick={() => { setEditingRow(null); setSplittingRow(null); setDisposalRow(t); }} className="p-1.5 text-slate-400 hover:text-emerald-700 hover:bg-emerald-50 rounded-md" title="Asset disposal (CGT)">
+                              <Landmark className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                          <button onClick={() => onTransactionsChange(deleteTransaction(transactions, t))} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md" title="Delete">
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
                       </td>
                     </tr>
                   ))}
                   {filteredTransactions.length === 0 && (
                     <tr>
-                      <td colSpan={3} className="px-6 py-12 text-center text-slate-400">
+                      <td colSpan={4} className="px-6 py-12 text-center text-slate-400">
                         No transactions found matching your search.
                       </td>
                     </tr>
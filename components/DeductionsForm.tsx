@@ -0,0 +1,49 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { StatutoryDeductions } from '../types';
+import { DEDUCTION_RULES } from '../services/taxRules';
+
+interface DeductionsFormProps {
+  deductions: StatutoryDeductions;
+  detected: StatutoryDeductions;
+  onChange: (deductions: StatutoryDeductions) => void;
+}
+
+const DeductionsForm: React.FC<DeductionsFormProps> = ({ deductions, detected, onChange }) => {
+  const isEdited = DEDUCTION_RULES.some(rule => (deductions[rule.key] ?? 0) !== (detected[rule.key] ?? 0));
+
+  return (
+    <div className="mb-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-400">Statutory Deductions</span>
+        {isEdited && (
+          <button
+            onClick={() => onChange(detected)}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-emerald-700"
+            title="Reset to amounts detected in the statement"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Detected
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {DEDUCTION_RULES.map(rule => (
+          <label key={rule.key} className="block text-xs font-medium text-slate-500">
+            {rule.label}
+            <input
+              type="number"
+              min={0}
+              value={deductions[rule.key] || ''}
+              onChange={(e) => onChange({ ...deductions, [rule.key]: Math.max(0, Number(e.target.value) || 0) })}
+              placeholder="0"
+              className="mt-1 w-full px-3 py-2 bg-slate-50 border-none rounded-lg text-sm text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DeductionsForm;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { DisposalAssetType, DisposalDetails, Transaction } from '../types';
+
+interface DisposalFormProps {
+  transaction: Transaction;
+  /** DEBIT rows the acquisition cost can be taken from */
+  purchases: Transaction[];
+  formatter: Intl.NumberFormat;
+  /** Called with undefined to unmark the disposal */
+  onSave: (disposal: DisposalDetails | undefined) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "px-3 py-2 bg-slate-50 border-none rounded-lg text-sm text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+const labelClass = "flex flex-col gap-1 text-[10px] font-bold uppercase tracking-wider text-slate-400";
+
+const describePurchase = (t: Transaction) => `${t.date} · ${t.description}`;
+
+const DisposalForm: React.FC<DisposalFormProps> = ({ transaction, purchases, formatter, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<DisposalDetails>(transaction.disposal ?? {
+    assetType: DisposalAssetType.LAND,
+    acquisitionCost: 0,
+    incidentalCosts: 0
+  });
+  const update = (changes: Partial<DisposalDetails>) => setDraft({ ...draft, ...changes });
+
+  const handleLink = (index: string) => {
+    const purchase = purchases[Number(index)];
+    update(purchase
+      ? { acquisitionCost: purchase.amount, acquisitionSource: describePurchase(purchase) }
+      : { acquisitionSource: undefined }
+    );
+  };
+
+  const gain = transaction.amount - draft.acquisitionCost - draft.incidentalCosts;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs font-bold uppercase tracking-wider text-slate-400">
+        Disposal proceeds {formatter.format(transaction.amount)} · {transaction.date}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label className={labelClass}>
+          Asset
+          <select value={draft.assetType} onChange={(e) => update({ assetType: e.target.value as DisposalAssetType })} className={inputClass}>
+            {Object.values(DisposalAssetType).map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Link purchase
+          <select
+            value={purchases.findIndex(p => describePurchase(p) === draft.acquisitionSource)}
+            onChange={(e) => handleLink(e.target.value)}
+            className={inputClass}
+          >
+            <option value={-1}>Enter cost by hand</option>
+            {purchases.map((p, i) => (
+              <option key={i} value={i}>{describePurchase(p)} · {formatter.format(p.amount)}</option>
+            ))}
+          </select>
+        </label>
+        <label className={labelClass}>
+          Acquisition cost
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={draft.acquisitionCost || ''}
+            onChange={(e) => update({ acquisitionCost: Math.max(0, Number(e.target.value) || 0), acquisitionSource: undefined })}
+            className={`${inputClass} text-right font-mono`}
+          />
+        </label>
+        <label className={labelClass}>
+          Incidental costs (fees, duties)
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={draft.incidentalCosts || ''}
+            onChange={(e) => update({ incidentalCosts: Math.max(0, Number(e.target.value) || 0) })}
+            className={`${inputClass} text-right font-mono`}
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className={`text-xs font-mono ${gain < 0 ? 'text-amber-600' : 'text-slate-600'}`}>
+          {gain < 0 ? 'Loss' : 'Gain'} {formatter.format(Math.abs(gain))}
+        </span>
+        <div className="flex gap-2">
+          {transaction.disposal && (
+            <button onClick={() => onSave(undefined)} className="px-4 py-2 text-xs font-bold uppercase tracking-wider text-red-600 hover:bg-red-50 rounded-lg">
+              Not a disposal
+            </button>
+          )}
+          <button onClick={onCancel} className="px-4 py-2 text-xs font-bold uppercase tracking-wider text-slate-500 hover:bg-slate-100 rounded-lg">
+            Cancel
+          </button>
+          <button onClick={() => onSave(draft)} className="px-4 py-2 text-xs font-bold uppercase tracking-wider text-white bg-emerald-700 hover:bg-emerald-800 rounded-lg">
+            Save Disposal
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DisposalForm;
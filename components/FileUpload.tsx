@@ -1,77 +1,193 @@
 import React, { useRef, useState } from 'react';
-import { Upload, ShieldCheck, AlertCircle, CheckCircle2, FileText, X, Loader2 } from 'lucide-react';
-import { ModelProvider } from '../types';
+import { Upload, ShieldCheck, AlertCircle, CheckCircle2, FileText, X, Loader2, EyeOff, RotateCcw } from 'lucide-react';
+import { ModelProvider, ExtractionJob, ExtractionJobStatus } from '../types';
+import { isStructuredStatement, STRUCTURED_EXTENSIONS } from '../services/parsers';
+import { EXTRACTION_PROVIDERS } from '../services/providers';
+import { ExtractionCheckpoint, ExtractionOptions, createCheckpoint } from '../services/extractionService';
+import { isAbortError } from '../services/providers/errors';
 
 interface FileUploadProps {
-  onFileProcess: (base64: string, mimeType: string, provider: ModelProvider) => void;
+  onFileProcess: (base64: string, mimeType: string, provider: ModelProvider, fileName: string, options: ExtractionOptions) => Promise<void>;
+  onStructuredFile: (content: string, fileName: string) => void;
+  onComplete: () => void;
   isProcessing: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileProcess, isProcessing }) => {
+/**
+ * What a job needs to run or resume. Kept out of state: the file content can be hundreds of MB.
+ */
+interface JobPayload {
+  file: File;
+  provider: ModelProvider;
+  redact: boolean;
+  /** The read result, so a resumed job does not read the file again */
+  content?: string;
+  checkpoint: ExtractionCheckpoint;
+  controller?: AbortController;
+}
+
+const readFile = (file: File, asText: boolean, signal: AbortSignal, onProgress: (percent: number) => void) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    const onAbort = () => reader.abort();
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    // Real-time progress monitoring
+    reader.onprogress = (data) => {
+      if (data.lengthComputable) onProgress(Math.round((data.loaded / data.total) * 100));
+    };
+    reader.onload = () => {
+      signal.removeEventListener('abort', onAbort);
+      onProgress(100);
+      resolve(reader.result as string);
+    };
+    reader.onabort = () => reject(new DOMException('Upload cancelled.', 'AbortError'));
+    reader.onerror = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(new Error('Secure read failed. Please retry.'));
+    };
+
+    if (asText) {
+      reader.readAsText(file);
+    } else {
+      reader.readAsDataURL(file);
+    }
+  });
+
+const FileUpload: React.FC<FileUploadProps> = ({ onFileProcess, onStructuredFile, onComplete, isProcessing }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
   const [provider, setProvider] = useState<ModelProvider>(ModelProvider.GEMINI_FLASH);
+  const [redact, setRedact] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [statusMessage, setStatusMessage] = useState('');
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
 
-  // Gmail-style file handling
-  const processFile = (file: File) => {
-    setError(null);
-    setUploadProgress(0);
-    
-    const allowedTypes = ['image/jpeg', 'image/png', 'application/pdf'];
-    if (!allowedTypes.includes(file.type)) {
-      setError("Secure format required: PDF, JPG, or PNG only.");
-      return;
-    }
+  // The queue loop outlives any one render, so it reads and writes jobs through a ref
+  const jobsRef = useRef<ExtractionJob[]>([]);
+  const payloads = useRef(new Map<string, JobPayload>());
+  const draining = useRef(false);
 
-    // Increased to 500MB for Institutional/Audit Use
-    if (file.size > 500 * 1024 * 1024) {
-      setError("File exceeds the 500MB institutional limit.");
-      return;
-    }
+  const updateJobs = (update: (jobs: ExtractionJob[]) => ExtractionJob[]) => {
+    jobsRef.current = update(jobsRef.current);
+    setJobs(jobsRef.current);
+  };
+  const updateJob = (id: string, changes: Partial<ExtractionJob>) =>
+    updateJobs(all => all.map(j => j.id === id ? { ...j, ...changes } : j));
 
-    setStatusMessage('Encrypting & Uploading...');
-    
-    const reader = new FileReader();
+  const runningJob = jobs.find(j => j.status === ExtractionJobStatus.RUNNING);
+  const busy = jobs.some(j => j.status === ExtractionJobStatus.RUNNING || j.status === ExtractionJobStatus.QUEUED);
 
-    // Real-time progress monitoring
-    reader.onprogress = (data) => {
-      if (data.lengthComputable) {
-        const progress = Math.round((data.loaded / data.total) * 100);
-        setUploadProgress(progress);
-      }
-    };
-
-    reader.onloadstart = () => {
-      setUploadProgress(0);
-    };
+  const runJob = async (job: ExtractionJob) => {
+    const payload = payloads.current.get(job.id)!;
+    const { file } = payload;
+    const structured = isStructuredStatement(file.name, file.type);
+    const controller = new AbortController();
+    payload.controller = controller;
+    updateJob(job.id, { status: ExtractionJobStatus.RUNNING, error: undefined });
 
-    reader.onload = (e) => {
-      if (e.target?.result) {
-        setUploadProgress(100);
-        setStatusMessage('Initiating Federal Audit...');
-        // Small delay to let UI render 100% before switching to processing state
-        setTimeout(() => {
-            onFileProcess(e.target!.result as string, file.type, provider);
-        }, 500);
+    try {
+      // Machine-readable exports never leave the browser
+      payload.content ??= await readFile(file, structured, controller.signal, readProgress => updateJob(job.id, { readProgress }));
+      if (structured) {
+        onStructuredFile(payload.content, file.name);
+      } else {
+        await onFileProcess(payload.content, file.type, payload.provider, file.name, {
+          redact: payload.redact,
+          // Nothing leaves the browser until the user accepts a partial redaction
+          confirmRedaction: report => window.confirm(`${file.name}: ${report.warning}\n\nSend it for extraction anyway?`),
+          signal: controller.signal,
+          checkpoint: payload.checkpoint,
+          onProgress: progress => updateJob(job.id, { progress, completedChunks: payload.checkpoint.results.length })
+        });
       }
-    };
+      updateJob(job.id, { status: ExtractionJobStatus.DONE });
+      payloads.current.delete(job.id);
+    } catch (err: any) {
+      if (isAbortError(err) || controller.signal.aborted) {
+        updateJob(job.id, { status: ExtractionJobStatus.CANCELLED });
+      } else {
+        console.error(err);
+        updateJob(job.id, {
+          status: ExtractionJobStatus.FAILED,
+          error: err.message || (structured ? "Could not read this statement file." : "Error processing statement. Please try a clearer document."),
+          completedChunks: payload.checkpoint.results.length
+        });
+      }
+    } finally {
+      payload.controller = undefined;
+    }
+  };
 
-    reader.onerror = () => {
-      setError("Secure read failed. Please retry.");
-      setUploadProgress(0);
+  // Files are processed one at a time, in the order they were added
+  const drainQueue = async () => {
+    if (draining.current) return;
+    draining.current = true;
+
+    let next: ExtractionJob | undefined;
+    while ((next = jobsRef.current.find(j => j.status === ExtractionJobStatus.QUEUED))) {
+      await runJob(next);
     }
 
-    reader.readAsDataURL(file);
+    draining.current = false;
+    updateJobs(all => all.filter(j => j.status !== ExtractionJobStatus.DONE));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    // Stay on the upload screen while anything still needs a resume or a dismiss
+    if (jobsRef.current.length === 0) onComplete();
   };
 
+  // Statements for several accounts or periods can be dropped together
   const handleFiles = (files: FileList | null) => {
     if (!files || files.length === 0) return;
-    processFile(files[0]);
+    setError(null);
+
+    const accepted: ExtractionJob[] = [];
+    for (const file of Array.from(files)) {
+      const structured = isStructuredStatement(file.name, file.type);
+      const allowedTypes = ['image/jpeg', 'image/png', 'application/pdf'];
+      if (!structured && !allowedTypes.includes(file.type)) {
+        setError(`${file.name}: Secure format required: PDF, JPG, PNG, CSV, OFX or MT940 only.`);
+        continue;
+      }
+      // Increased to 500MB for Institutional/Audit Use
+      if (file.size > 500 * 1024 * 1024) {
+        setError(`${file.name}: File exceeds the 500MB institutional limit.`);
+        continue;
+      }
+
+      const id = crypto.randomUUID();
+      payloads.current.set(id, { file, provider, redact, checkpoint: createCheckpoint() });
+      accepted.push({ id, fileName: file.name, status: ExtractionJobStatus.QUEUED, readProgress: 0, completedChunks: 0 });
+    }
+
+    if (accepted.length === 0) return;
+    updateJobs(all => [...all, ...accepted]);
+    drainQueue();
+  };
+
+  const cancelJob = (id: string) => {
+    const job = jobsRef.current.find(j => j.id === id);
+    if (job?.status === ExtractionJobStatus.QUEUED) updateJob(id, { status: ExtractionJobStatus.CANCELLED });
+    payloads.current.get(id)?.controller?.abort();
   };
 
+  // A resumed job uses the engine selected now, so a failing engine can be swapped out
+  const resumeJob = (id: string) => {
+    const payload = payloads.current.get(id);
+    if (!payload) return;
+    payload.provider = provider;
+    updateJob(id, { status: ExtractionJobStatus.QUEUED, error: undefined });
+    drainQueue();
+  };
+
+  const dismissJob = (id: string) => {
+    payloads.current.delete(id);
+    updateJobs(all => all.filter(j => j.id !== id));
+  };
+
+  const runningIndex = runningJob ? jobs.indexOf(runningJob) : -1;
+  const extractionProgress = runningJob?.progress;
+  const reading = !!runningJob && !isProcessing;
+
   return (
     <div className="w-full max-w-xl mx-auto">
       
@@ -83,27 +199,41 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcess, isProcessing })
         </div>
         
         <div className="flex bg-white p-1 rounded-lg border border-slate-200 shadow-sm">
-          <button
-            onClick={() => setProvider(ModelProvider.GEMINI_FLASH)}
-            disabled={isProcessing || uploadProgress > 0 && uploadProgress < 100}
-            className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all duration-300
-              ${provider === ModelProvider.GEMINI_FLASH ? 'bg-emerald-50 text-emerald-800 shadow-sm ring-1 ring-emerald-200' : 'text-slate-500 hover:text-slate-700'}
-            `}
-          >
-            Flash (Speed)
-          </button>
-          <button
-            onClick={() => setProvider(ModelProvider.GROK_BETA)}
-            disabled={isProcessing || uploadProgress > 0 && uploadProgress < 100}
-            className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all duration-300
-              ${provider === ModelProvider.GROK_BETA ? 'bg-slate-900 text-white shadow-sm' : 'text-slate-500 hover:text-slate-700'}
-            `}
-          >
-            Pro (Audit)
-          </button>
+          {Object.values(EXTRACTION_PROVIDERS)
+            .filter(p => p.isConfigured() || p.id === provider)
+            .map(p => (
+              <button
+                key={p.id}
+                onClick={() => setProvider(p.id)}
+                disabled={isProcessing || busy}
+                title={p.id}
+                className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all duration-300
+                  ${provider === p.id
+                    ? p.id === ModelProvider.GEMINI_FLASH ? 'bg-emerald-50 text-emerald-800 shadow-sm ring-1 ring-emerald-200' : 'bg-slate-900 text-white shadow-sm'
+                    : 'text-slate-500 hover:text-slate-700'}
+                `}
+              >
+                {p.label}
+              </button>
+            ))}
         </div>
       </div>
 
+      {/* Local redaction runs before anything is sent to the engine; CSV, OFX and MT940 never leave the browser */}
+      <label className="flex items-start gap-2 mb-4 px-1 text-xs text-slate-500 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={redact}
+          onChange={(e) => setRedact(e.target.checked)}
+          disabled={busy}
+          className="mt-0.5 accent-emerald-700"
+        />
+        <span>
+          <span className="font-bold text-slate-700 inline-flex items-center gap-1"><EyeOff className="w-3 h-3" /> Redact before upload</span>
+          {' '}· Masks image headers, and account numbers, BVN/NIN, emails and phone numbers in text PDFs.
+        </span>
+      </label>
+
       {/* Main Secure Drop Zone */}
       <div 
         className={`relative group bg-white rounded-3xl transition-all duration-300 ease-out overflow-hidden
@@ -111,42 +241,43 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcess, isProcessing })
           ${error ? 'ring-2 ring-red-100' : ''}
         `}
         onDrop={(e) => {
-          if (isProcessing) return;
+          if (busy) return;
           e.preventDefault();
           e.stopPropagation();
           setDragActive(false);
           handleFiles(e.dataTransfer.files);
         }}
         onDragOver={(e) => {
-          if (isProcessing) return;
+          if (busy) return;
           e.preventDefault();
           e.stopPropagation();
           setDragActive(true);
         }}
         onDragEnter={(e) => {
-          if (isProcessing) return;
+          if (busy) return;
           e.preventDefault();
           e.stopPropagation();
           setDragActive(true);
         }}
         onDragLeave={(e) => {
-          if (isProcessing) return;
+          if (busy) return;
           e.preventDefault();
           e.stopPropagation();
           setDragActive(false);
         }}
-        onClick={() => !isProcessing && uploadProgress === 0 && fileInputRef.current?.click()}
+        onClick={() => !busy && fileInputRef.current?.click()}
       >
         <input 
           ref={fileInputRef}
           type="file" 
+          multiple
           className="hidden" 
-          accept="image/jpeg,image/png,application/pdf"
+          accept={['image/jpeg', 'image/png', 'application/pdf', 'text/csv', ...STRUCTURED_EXTENSIONS].join(',')}
           onChange={(e) => handleFiles(e.target.files)}
         />
         
         {/* Processing / Uploading Overlay (Gmail Style) */}
-        {(uploadProgress > 0 || isProcessing) && (
+        {runningJob && (
           <div className="absolute inset-0 z-20 bg-white/98 backdrop-blur-md flex flex-col items-center justify-center p-8 animate-in fade-in duration-200">
             <div className="w-full max-w-[280px] space-y-6 text-center">
               
@@ -160,41 +291,59 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcess, isProcessing })
                    </div>
                 ) : (
                    <div className="w-12 h-12 rounded-full bg-emerald-50 flex items-center justify-center">
-                     <span className="text-xs font-bold text-emerald-700">{uploadProgress}%</span>
+                     <span className="text-xs font-bold text-emerald-700">{runningJob.readProgress}%</span>
                    </div>
                 )}
                 
                 <div>
+                  {jobs.length > 1 && (
+                    <p className="text-[10px] text-emerald-700 mb-1 font-bold uppercase tracking-widest truncate">
+                      File {runningIndex + 1} of {jobs.length} · {runningJob.fileName}
+                    </p>
+                  )}
                   <h4 className="text-sm font-bold text-slate-900">
                     {isProcessing ? 'Analyzing Document' : 'Uploading Securely'}
                   </h4>
                   <p className="text-xs text-slate-500 mt-1 font-medium animate-pulse">
-                    {isProcessing ? 'Extracting multi-page transaction data...' : statusMessage}
+                    {isProcessing
+                      ? extractionProgress
+                        ? `Reading pages ${extractionProgress.startPage}–${extractionProgress.endPage} of ${extractionProgress.totalPages}`
+                        : 'Extracting transaction data...'
+                      : 'Encrypting & Uploading...'}
                   </p>
+                  {isProcessing && extractionProgress && extractionProgress.chunkCount > 1 && (
+                    <p className="text-[10px] text-slate-400 mt-1 font-bold uppercase tracking-widest">
+                      Page {extractionProgress.completedPages} of {extractionProgress.totalPages} · Part {extractionProgress.chunkIndex + 1}/{extractionProgress.chunkCount}
+                    </p>
+                  )}
                 </div>
               </div>
 
               {/* Precise Progress Bar */}
               <div className="w-full bg-slate-100 h-1 rounded-full overflow-hidden">
-                <div 
-                  className={`h-full ${isProcessing ? 'bg-emerald-600 animate-indeterminate-bar' : 'bg-emerald-500 transition-all duration-300 ease-out'}`}
-                  style={{ width: isProcessing ? '100%' : `${uploadProgress}%` }}
-                ></div>
+                {isProcessing && extractionProgress ? (
+                  <div 
+                    className="h-full bg-emerald-600 transition-all duration-300 ease-out"
+                    style={{ width: `${Math.round((extractionProgress.completedPages / extractionProgress.totalPages) * 100)}%` }}
+                  ></div>
+                ) : (
+                  <div 
+                    className={`h-full ${isProcessing ? 'bg-emerald-600 animate-indeterminate-bar' : 'bg-emerald-500 transition-all duration-300 ease-out'}`}
+                    style={{ width: isProcessing ? '100%' : `${runningJob.readProgress}%` }}
+                  ></div>
+                )}
               </div>
 
-              {/* Cancel Action */}
-              {!isProcessing && uploadProgress < 100 && (
-                 <button 
-                   onClick={(e) => {
-                     e.stopPropagation();
-                     setUploadProgress(0);
-                     // Logic to abort reader would go here in a full impl
-                   }}
-                   className="text-[10px] font-bold text-red-500 hover:text-red-700 uppercase tracking-widest border border-red-100 hover:bg-red-50 px-4 py-1.5 rounded-full transition-colors"
-                 >
-                   Cancel Upload
-                 </button>
-              )}
+              {/* Cancel Action: aborts the file read or the in-flight engine call */}
+              <button 
+                onClick={(e) => {
+                  e.stopPropagation();
+                  cancelJob(runningJob.id);
+                }}
+                className="text-[10px] font-bold text-red-500 hover:text-red-700 uppercase tracking-widest border border-red-100 hover:bg-red-50 px-4 py-1.5 rounded-full transition-colors"
+              >
+                {reading ? 'Cancel Upload' : 'Cancel Extraction'}
+              </button>
             </div>
           </div>
         )}
@@ -234,10 +383,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcess, isProcessing })
             ) : (
               <>
                 <h3 className="text-xl font-bold text-slate-900 tracking-tight">
-                  {dragActive ? "Secure Deposit" : "Upload Statement"}
+                  {dragActive ? "Secure Deposit" : "Upload Statements"}
                 </h3>
                 <p className="text-sm text-slate-500 leading-relaxed font-medium">
-                  {dragActive ? "Releasing file..." : "PDF or Image • Max 500MB"}
+                  {dragActive ? "Releasing files..." : "PDF, Image, CSV, OFX or MT940 • One or more accounts • Max 500MB each"}
                 </p>
                 
                 <div className="pt-6 opacity-0 group-hover:opacity-100 transition-opacity duration-300 transform translate-y-2 group-hover:translate-y-0">
@@ -260,6 +409,51 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileProcess, isProcessing })
         </div>
       </div>
 
+      {/* Upload Queue */}
+      {jobs.length > 0 && (
+        <ul className="mt-6 bg-white rounded-2xl border border-slate-100 shadow-sm divide-y divide-slate-50 text-left">
+          {jobs.map(job => {
+            const resumable = job.status === ExtractionJobStatus.FAILED || job.status === ExtractionJobStatus.CANCELLED;
+            return (
+              <li key={job.id} className="px-4 py-3 flex items-center gap-3">
+                {job.status === ExtractionJobStatus.RUNNING
+                  ? <Loader2 className="w-4 h-4 text-emerald-600 animate-spin shrink-0" />
+                  : job.status === ExtractionJobStatus.FAILED
+                    ? <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />
+                    : <FileText className="w-4 h-4 text-slate-300 shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-slate-800 truncate">{job.fileName}</div>
+                  <div className={`text-xs truncate ${job.status === ExtractionJobStatus.FAILED ? 'text-red-500' : 'text-slate-400'}`} title={job.error}>
+                    {job.status}
+                    {job.error && ` · ${job.error}`}
+                    {resumable && job.progress && job.completedChunks > 0 && ` · ${job.completedChunks} of ${job.progress.chunkCount} parts done`}
+                  </div>
+                </div>
+                {(job.status === ExtractionJobStatus.QUEUED || job.status === ExtractionJobStatus.RUNNING) && (
+                  <button onClick={() => cancelJob(job.id)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="Cancel">
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+                {resumable && (
+                  <>
+                    <button
+                      onClick={() => resumeJob(job.id)}
+                      className="inline-flex items-center gap-1 px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-emerald-800 hover:bg-emerald-50 rounded-lg"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {job.completedChunks > 0 ? 'Resume' : 'Retry'}
+                    </button>
+                    <button onClick={() => dismissJob(job.id)} className="p-2 text-slate-400 hover:text-slate-600 rounded-lg" title="Dismiss">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
       {/* Trust Footer */}
       <div className="mt-8 grid grid-cols-3 gap-4 text-center">
         <div className="flex flex-col items-center gap-1.5">
@@ -0,0 +1,163 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { Briefcase } from 'lucide-react';
+import { PayeSummary, PayslipEntry } from '../types';
+
+interface PayeReviewProps {
+  summary: PayeSummary;
+  payslips: PayslipEntry[];
+  onPayslipsChange: (payslips: PayslipEntry[]) => void;
+  formatter: Intl.NumberFormat;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const monthLabel = (month: string) => `${MONTH_LABELS[parseInt(month.slice(5, 7), 10) - 1]} ${month.slice(0, 4)}`;
+
+const inputClass = "w-28 px-2 py-1 bg-slate-50 border-none rounded-md text-xs text-right font-mono text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+
+const optionalAmount = (value: string): number | undefined => value === '' ? undefined : Math.max(0, Number(value) || 0);
+
+const PayeReview: React.FC<PayeReviewProps> = ({ summary, payslips, onPayslipsChange, formatter }) => {
+  const updatePayslip = (month: string, changes: Partial<PayslipEntry>) => {
+    const existing = payslips.find(p => p.month === month) ?? { month };
+    const updated = { ...existing, ...changes };
+    onPayslipsChange([...payslips.filter(p => p.month !== month), updated].sort((a, b) => a.month.localeCompare(b.month)));
+  };
+
+  const chartData = summary.months.map(m => ({
+    month: monthLabel(m.month).slice(0, 3),
+    Expected: Math.round(m.expectedPaye),
+    Deducted: m.payeDeducted !== undefined ? Math.round(m.payeDeducted) : null
+  }));
+
+  const position = summary.position;
+  const positionLabel = summary.comparedMonths === 0
+    ? 'Enter payslip PAYE to compare'
+    : Math.abs(position) < 1 ? 'Correctly remitted' : position > 0 ? 'Over-remitted' : 'Under-remitted';
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-slate-50 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <Briefcase className="w-5 h-5 text-slate-400" />
+            PAYE Review · {summary.assessmentYear}
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Expected PAYE per month on the annualised method. Gross pay defaults to the salary credited; enter payslip figures for an exact check.
+          </p>
+        </div>
+        <div className={`shrink-0 text-right px-4 py-2 rounded-xl ${
+          summary.comparedMonths === 0 ? 'bg-slate-50 text-slate-500'
+            : position < -1 ? 'bg-amber-50 text-amber-800' : 'bg-emerald-50 text-emerald-800'
+        }`}>
+          <div className="text-[10px] font-bold uppercase tracking-wider">{positionLabel}</div>
+          {summary.comparedMonths > 0 && (
+            <div className="text-lg font-bold font-mono">{formatter.format(Math.abs(position))}</div>
+          )}
+          {summary.comparedMonths > 0 && (
+            <div className="text-[10px]">over {summary.comparedMonths} month{summary.comparedMonths === 1 ? '' : 's'}</div>
+          )}
+        </div>
+      </div>
+
+      {summary.months.length === 0 ? (
+        <p className="p-12 text-center text-sm text-slate-400">
+          No salary credits found for {summary.assessmentYear}. Tag salary rows as "Salary" to include them.
+        </p>
+      ) : (
+        <>
+          <div className="h-56 px-4 pt-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <XAxis dataKey="month" tick={{ fontSize: 11, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                <YAxis tick={{ fontSize: 11, fill: '#94a3b8' }} axisLine={false} tickLine={false} width={70} />
+                <Tooltip formatter={(value) => formatter.format(Number(value))} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Bar dataKey="Expected" fill="#047857" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="Deducted" fill="#94a3b8" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-[10px] uppercase text-slate-400">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">Month</th>
+                  <th className="px-4 py-2 text-right font-medium">Salary credited</th>
+                  <th className="px-4 py-2 text-right font-medium">Payslip gross</th>
+                  <th className="px-4 py-2 text-right font-medium">Payslip pension</th>
+                  <th className="px-4 py-2 text-right font-medium">Expected PAYE</th>
+                  <th className="px-4 py-2 text-right font-medium">PAYE deducted</th>
+                  <th className="px-4 py-2 text-right font-medium">Variance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {summary.months.map(m => {
+                  const payslip = payslips.find(p => p.month === m.month);
+                  return (
+                    <tr key={m.month}>
+                      <td className="px-4 py-2 font-medium text-slate-700">{monthLabel(m.month)}</td>
+                      <td className="px-4 py-2 text-right font-mono text-slate-500">{formatter.format(m.salaryCredited)}</td>
+                      <td className="px-4 py-2 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          value={payslip?.grossPay ?? ''}
+                          onChange={(e) => updatePayslip(m.month, { grossPay: optionalAmount(e.target.value) })}
+                          placeholder={m.salaryCredited.toFixed(0)}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          value={payslip?.pension ?? ''}
+                          onChange={(e) => updatePayslip(m.month, { pension: optionalAmount(e.target.value) })}
+                          placeholder="From statement"
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono text-slate-900">{formatter.format(m.expectedPaye)}</td>
+                      <td className="px-4 py-2 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          value={payslip?.payeDeducted ?? ''}
+                          onChange={(e) => updatePayslip(m.month, { payeDeducted: optionalAmount(e.target.value) })}
+                          placeholder="—"
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className={`px-4 py-2 text-right font-mono ${
+                        m.variance === undefined ? 'text-slate-300' : m.variance < -1 ? 'text-amber-600' : 'text-emerald-600'
+                      }`}>
+                        {m.variance === undefined ? '—' : `${m.variance > 0 ? '+' : ''}${formatter.format(m.variance)}`}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot className="bg-slate-50/60 font-semibold text-slate-700">
+                <tr>
+                  <td className="px-4 py-2">Year</td>
+                  <td className="px-4 py-2 text-right font-mono">{formatter.format(summary.months.reduce((sum, m) => sum + m.salaryCredited, 0))}</td>
+                  <td className="px-4 py-2 text-right font-mono">{formatter.format(summary.totalGross)}</td>
+                  <td></td>
+                  <td className="px-4 py-2 text-right font-mono">{formatter.format(summary.totalExpected)}</td>
+                  <td className="px-4 py-2 text-right font-mono">{summary.comparedMonths > 0 ? formatter.format(summary.totalDeducted) : '—'}</td>
+                  <td className="px-4 py-2 text-right font-mono">{summary.comparedMonths > 0 ? formatter.format(position) : '—'}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PayeReview;
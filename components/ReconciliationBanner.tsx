@@ -0,0 +1,70 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, HelpCircle } from 'lucide-react';
+import { ReconciliationResult, Transaction } from '../types';
+
+interface ReconciliationBannerProps {
+  result: ReconciliationResult;
+  transactions: Transaction[];
+  formatter: Intl.NumberFormat;
+  /** Account the result covers; shown when the audit spans several accounts */
+  account?: string;
+}
+
+const ReconciliationBanner: React.FC<ReconciliationBannerProps> = ({ result, transactions, formatter, account }) => {
+  if (result.status === 'RECONCILED') {
+    return (
+      <div className="flex items-center gap-3 p-4 bg-emerald-50 border border-emerald-100 rounded-2xl text-sm text-emerald-800">
+        <CheckCircle2 className="w-5 h-5 shrink-0" />
+        <span>
+          {account && <span className="font-bold">{account} · </span>}<strong>Reconciled.</strong> Opening {formatter.format(result.openingBalance ?? 0)} + credits − debits agrees with the closing balance of {formatter.format(result.closingBalance ?? 0)}.
+        </span>
+      </div>
+    );
+  }
+
+  if (result.status === 'UNVERIFIED') {
+    return (
+      <div className="flex items-center gap-3 p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm text-slate-600">
+        <HelpCircle className="w-5 h-5 shrink-0" />
+        <span>
+          {account && <span className="font-bold">{account} · </span>}<strong>Unverified.</strong> The statement did not show opening/closing or running balances, so the extracted rows could not be reconciled.
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-amber-50 border border-amber-200 rounded-2xl text-sm text-amber-900 space-y-2">
+      <div className="flex items-center gap-3">
+        <AlertTriangle className="w-5 h-5 shrink-0 text-amber-600" />
+        <strong>{account && `${account} · `}Unreconciled — review before relying on the tax figure.</strong>
+      </div>
+      <ul className="pl-8 list-disc space-y-1 text-xs">
+        {result.truncated && (
+          <li>The extraction was cut off and repaired; trailing transactions are likely missing.</li>
+        )}
+        {result.rejectedRows > 0 && (
+          <li>{result.rejectedRows} extracted row{result.rejectedRows === 1 ? ' was' : 's were'} dropped because the date, type or amount could not be read.</li>
+        )}
+        {result.unmatchedOverlaps > 0 && (
+          <li>The rows repeated where {result.unmatchedOverlaps === 1 ? 'two page ranges meet' : `${result.unmatchedOverlaps} page ranges meet`} could not be matched, so some transactions may be counted twice.</li>
+        )}
+        {result.expectedClosing !== undefined && result.closingBalance !== undefined && Math.abs(result.difference) > 0.01 && (
+          <li>
+            Expected closing balance {formatter.format(result.expectedClosing)} but the statement shows {formatter.format(result.closingBalance)} (difference {formatter.format(result.difference)}).
+          </li>
+        )}
+        {result.breaks.slice(0, 5).map(b => (
+          <li key={b.index}>
+            Running balance breaks at row {b.index + 1} ({transactions[b.index]?.date} · {transactions[b.index]?.description}): expected {formatter.format(b.expectedBalance)}, statement shows {formatter.format(b.reportedBalance)}.
+          </li>
+        ))}
+        {result.breaks.length > 5 && (
+          <li>…and {result.breaks.length - 5} more rows highlighted in the table.</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default ReconciliationBanner;
@@ -0,0 +1,263 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Pencil, Trash2, Upload, Download, ListFilter } from 'lucide-react';
+import { CategorisationRule, TransactionType, IncomeCategory, ExpenseCategory, TransactionCategory } from '../types';
+import { exportRules, parseRules, isValidPattern } from '../services/rulesService';
+import { getCategoryLabel } from '../services/classificationService';
+import { WITHHOLDING_RATES } from '../services/taxRules';
+import { downloadBlob } from '../services/downloadService';
+
+interface RulesManagerProps {
+  rules: CategorisationRule[];
+  onChange: (rules: CategorisationRule[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "mt-1 w-full px-3 py-2 bg-slate-50 border-none rounded-lg text-sm text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+const labelClass = "block text-xs font-medium text-slate-500";
+
+const createRule = (priority: number): CategorisationRule => ({
+  id: crypto.randomUUID(),
+  name: '',
+  priority,
+  enabled: true,
+  condition: {},
+  action: {}
+});
+
+const optionalNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
+const optionalString = (value: string): string | undefined => value === '' ? undefined : value;
+
+const RulesManager: React.FC<RulesManagerProps> = ({ rules, onChange, onClose }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<CategorisationRule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sortedRules = [...rules].sort((a, b) => a.priority - b.priority);
+  const nextPriority = rules.reduce((max, r) => Math.max(max, r.priority), 0) + 10;
+
+  const updateDraft = (patch: Partial<CategorisationRule>) => draft && setDraft({ ...draft, ...patch });
+  const updateCondition = (patch: Partial<CategorisationRule['condition']>) =>
+    draft && setDraft({ ...draft, condition: { ...draft.condition, ...patch } });
+  const updateAction = (patch: Partial<CategorisationRule['action']>) =>
+    draft && setDraft({ ...draft, action: { ...draft.action, ...patch } });
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError("Give the rule a name.");
+      return;
+    }
+    if (draft.condition.descriptionPattern && !isValidPattern(draft.condition.descriptionPattern)) {
+      setError("The description pattern is not a valid regular expression.");
+      return;
+    }
+    const exists = rules.some(r => r.id === draft.id);
+    onChange(exists ? rules.map(r => r.id === draft.id ? draft : r) : [...rules, draft]);
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportRules(rules)], { type: 'application/json' }), 'nairasync_rules.json');
+  };
+
+  const handleImport = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const imported = parseRules(reader.result as string);
+        // Imported rules replace existing ones with the same id
+        const importedIds = new Set(imported.map(r => r.id));
+        onChange([...rules.filter(r => !importedIds.has(r.id)), ...imported]);
+        setError(null);
+      } catch (e: any) {
+        setError(e.message);
+      }
+    };
+    reader.readAsText(files[0]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-emerald-950/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col animate-fade-in border border-emerald-100">
+        <div className="p-1 bg-gradient-to-r from-emerald-800 via-emerald-600 to-emerald-500"></div>
+
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <ListFilter className="w-5 h-5 text-emerald-700" />
+            Categorisation Rules
+          </h2>
+          <div className="flex items-center gap-1">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => { handleImport(e.target.files); e.target.value = ''; }}
+            />
+            <button onClick={() => importInputRef.current?.click()} className="p-2 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors" title="Import JSON">
+              <Upload className="w-4 h-4" />
+            </button>
+            <button onClick={handleExport} className="p-2 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors" title="Export JSON">
+              <Download className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-emerald-800">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 p-3 rounded-xl text-xs font-medium text-red-600">{error}</div>
+          )}
+
+          {draft ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-3">
+                <label className={`${labelClass} col-span-2`}>
+                  Name
+                  <input className={inputClass} value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+                </label>
+                <label className={labelClass}>
+                  Priority
+                  <input type="number" className={inputClass} value={draft.priority} onChange={(e) => updateDraft({ priority: Number(e.target.value) || 0 })} />
+                </label>
+              </div>
+
+              <p className="text-xs font-bold uppercase tracking-wider text-slate-400">When</p>
+              <div className="grid grid-cols-2 gap-3">
+                <label className={`${labelClass} col-span-2`}>
+                  Description matches (regex)
+                  <input className={`${inputClass} font-mono`} value={draft.condition.descriptionPattern ?? ''} onChange={(e) => updateCondition({ descriptionPattern: optionalString(e.target.value) })} placeholder="e.g. NIP/.*/SALARY" />
+                </label>
+                <label className={labelClass}>
+                  Type
+                  <select className={inputClass} value={draft.condition.type ?? ''} onChange={(e) => updateCondition({ type: optionalString(e.target.value) as TransactionType | undefined })}>
+                    <option value="">Any</option>
+                    <option value={TransactionType.CREDIT}>Credit</option>
+                    <option value={TransactionType.DEBIT}>Debit</option>
+                  </select>
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className={labelClass}>
+                    Min Amount
+                    <input type="number" className={inputClass} value={draft.condition.minAmount ?? ''} onChange={(e) => updateCondition({ minAmount: optionalNumber(e.target.value) })} />
+                  </label>
+                  <label className={labelClass}>
+                    Max Amount
+                    <input type="number" className={inputClass} value={draft.condition.maxAmount ?? ''} onChange={(e) => updateCondition({ maxAmount: optionalNumber(e.target.value) })} />
+                  </label>
+                </div>
+                <label className={labelClass}>
+                  From Date
+                  <input type="date" className={inputClass} value={draft.condition.dateFrom ?? ''} onChange={(e) => updateCondition({ dateFrom: optionalString(e.target.value) })} />
+                </label>
+                <label className={labelClass}>
+                  To Date
+                  <input type="date" className={inputClass} value={draft.condition.dateTo ?? ''} onChange={(e) => updateCondition({ dateTo: optionalString(e.target.value) })} />
+                </label>
+              </div>
+
+              <p className="text-xs font-bold uppercase tracking-wider text-slate-400">Then</p>
+              <div className="grid grid-cols-4 gap-3">
+                <label className={labelClass}>
+                  Category
+                  <select className={inputClass} value={draft.action.category ?? ''} onChange={(e) => updateAction({ category: optionalString(e.target.value) as TransactionCategory | undefined })}>
+                    <option value="">Detect</option>
+                    <optgroup label="Income">
+                      {Object.values(IncomeCategory).map(c => <option key={c} value={c}>{getCategoryLabel(c)}</option>)}
+                    </optgroup>
+                    <optgroup label="Expense">
+                      {Object.values(ExpenseCategory).map(c => <option key={c} value={c}>{getCategoryLabel(c)}</option>)}
+                    </optgroup>
+                  </select>
+                </label>
+                <label className={labelClass}>
+                  Taxable
+                  <select
+                    className={inputClass}
+                    value={draft.action.taxable === undefined ? '' : String(draft.action.taxable)}
+                    onChange={(e) => updateAction({ taxable: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                  >
+                    <option value="">From category</option>
+                    <option value="true">Taxable</option>
+                    <option value="false">Non-taxable</option>
+                  </select>
+                </label>
+                <label className={labelClass}>
+                  Counterparty
+                  <input className={inputClass} value={draft.action.counterparty ?? ''} onChange={(e) => updateAction({ counterparty: optionalString(e.target.value) })} />
+                </label>
+                <label className={labelClass}>
+                  Received net of WHT
+                  <select
+                    className={inputClass}
+                    value={draft.action.withholdingRate ?? ''}
+                    onChange={(e) => updateAction({ withholdingRate: optionalNumber(e.target.value) })}
+                  >
+                    <option value="">No</option>
+                    {WITHHOLDING_RATES.map(rate => <option key={rate} value={rate}>{rate * 100}% WHT</option>)}
+                  </select>
+                </label>
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2">
+                <button onClick={() => { setDraft(null); setError(null); }} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-slate-700 px-4 py-2 rounded-lg">
+                  Cancel
+                </button>
+                <button onClick={handleSave} className="bg-emerald-900 text-white px-6 py-2 rounded-lg hover:bg-emerald-800 transition-colors font-bold text-xs uppercase tracking-wider">
+                  Save Rule
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {sortedRules.length === 0 && (
+                <p className="text-sm text-slate-400 text-center py-8">No rules yet. Rules run in priority order and the first match wins.</p>
+              )}
+              <ul className="divide-y divide-slate-50">
+                {sortedRules.map(rule => (
+                  <li key={rule.id} className="py-3 flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => onChange(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))}
+                      className="accent-emerald-700"
+                      title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                    />
+                    <span className="w-10 text-xs font-mono text-slate-400">#{rule.priority}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className={`text-sm font-medium truncate ${rule.enabled ? 'text-slate-800' : 'text-slate-400'}`}>{rule.name}</div>
+                      <div className="text-xs text-slate-400 font-mono truncate">{rule.condition.descriptionPattern ?? 'Any description'}</div>
+                    </div>
+                    <span className="text-xs font-medium text-emerald-700">
+                      {rule.action.category ? getCategoryLabel(rule.action.category) : ''}
+                      {rule.action.withholdingRate !== undefined && ` · ${rule.action.withholdingRate * 100}% WHT`}
+                    </span>
+                    <button onClick={() => setDraft(rule)} className="p-1.5 text-slate-400 hover:text-emerald-700" title="Edit">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-1.5 text-slate-400 hover:text-red-600" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => setDraft(createRule(nextPriority))}
+                className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-emerald-800 hover:bg-emerald-50 border border-emerald-200 px-4 py-2 rounded-lg transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add Rule
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RulesManager;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { FlaskConical, Plus, Trash2 } from 'lucide-react';
+import { ScenarioResult, StatutoryDeductions, TaxBreakdown, TaxInputs, TaxRegime, TaxScenario } from '../types';
+import { compareRegimes, computeScenario, createScenario, getRegimeLabel } from '../services/scenarioService';
+
+interface ScenarioPlannerProps {
+  /** The current audit's computation, which every scenario is measured against */
+  baseline: TaxBreakdown;
+  inputs: TaxInputs;
+  scenarios: TaxScenario[];
+  onScenariosChange: (scenarios: TaxScenario[]) => void;
+  formatter: Intl.NumberFormat;
+}
+
+const inputClass = "w-full px-2 py-1 bg-slate-50 border-none rounded-md text-xs text-right font-mono text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+
+const amount = (value: string) => Math.max(0, Number(value) || 0);
+
+const ScenarioPlanner: React.FC<ScenarioPlannerProps> = ({ baseline, inputs, scenarios, onScenariosChange, formatter }) => {
+  const update = (id: string, changes: Partial<TaxScenario>) =>
+    onScenariosChange(scenarios.map(s => s.id === id ? { ...s, ...changes } : s));
+  const updateDeduction = (scenario: TaxScenario, key: keyof StatutoryDeductions, value: string) =>
+    update(scenario.id, { deductions: { ...scenario.deductions, [key]: amount(value) } });
+
+  const results = scenarios.map(s => computeScenario(s, inputs.assessmentYear, baseline.totalTax));
+  const regimes = compareRegimes(baseline.grossIncome, inputs, baseline.totalTax);
+  const current = regimes.find(r => r.tax.regime === baseline.regime);
+
+  const summaryRows = (result: ScenarioResult) => (
+    <>
+      <div className="flex justify-between"><span className="text-slate-400">Tax</span><span className="font-mono font-semibold text-slate-900">{formatter.format(result.tax.totalTax)}</span></div>
+      <div className="flex justify-between">
+        <span className="text-slate-400">Change</span>
+        <span className={`font-mono ${result.taxDelta < -0.5 ? 'text-emerald-600' : result.taxDelta > 0.5 ? 'text-red-600' : 'text-slate-400'}`}>
+          {result.taxDelta > 0.5 ? '+' : ''}{formatter.format(result.taxDelta)}
+        </span>
+      </div>
+      <div className="flex justify-between"><span className="text-slate-400">Effective rate</span><span className="font-mono">{result.tax.effectiveRate.toFixed(1)}%</span></div>
+      <div className="flex justify-between"><span className="text-slate-400">Take-home</span><span className="font-mono text-slate-900">{formatter.format(result.takeHome)}</span></div>
+    </>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-slate-50 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <FlaskConical className="w-5 h-5 text-slate-400" />
+            What-if Planner
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Scenarios start as a copy of this audit. Take-home is gross income less tax and every contribution claimed.
+          </p>
+        </div>
+        <button
+          onClick={() => onScenariosChange([...scenarios, createScenario(`Scenario ${scenarios.length + 1}`, baseline.grossIncome, inputs)])}
+          className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider text-emerald-800 hover:bg-emerald-50 px-3 py-2 rounded-lg"
+        >
+          <Plus className="w-4 h-4" />
+          Add Scenario
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          <div className="w-56 shrink-0 p-4 rounded-xl bg-slate-50/60 border border-slate-100 space-y-2 text-xs">
+            <div className="font-semibold text-slate-900">Current audit</div>
+            <div className="text-slate-400">{baseline.ruleSetName}</div>
+            <div className="flex justify-between"><span className="text-slate-400">Gross income</span><span className="font-mono">{formatter.format(baseline.grossIncome)}</span></div>
+            {current && summaryRows(current)}
+          </div>
+
+          {results.map(({ scenario, ...result }) => (
+            <div key={scenario.id} className="w-56 shrink-0 p-4 rounded-xl border border-slate-100 space-y-2 text-xs">
+              <div className="flex items-center gap-1">
+                <input
+                  value={scenario.name}
+                  onChange={(e) => update(scenario.id, { name: e.target.value })}
+                  className="flex-1 min-w-0 bg-transparent font-semibold text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500/20 rounded"
+                />
+                <button onClick={() => onScenariosChange(scenarios.filter(s => s.id !== scenario.id))} className="text-slate-300 hover:text-red-500" title="Remove scenario">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <select
+                value={scenario.regime}
+                onChange={(e) => update(scenario.id, { regime: e.target.value as TaxRegime })}
+                className="w-full px-2 py-1 bg-slate-50 border-none rounded-md text-xs text-slate-700 outline-none"
+              >
+                {Object.values(TaxRegime).map(regime => <option key={regime} value={regime}>{getRegimeLabel(regime)}</option>)}
+              </select>
+              <label className="block text-slate-400">
+                Gross income
+                <input type="number" min={0} value={scenario.grossIncome || ''} onChange={(e) => update(scenario.id, { grossIncome: amount(e.target.value) })} className={inputClass} />
+              </label>
+              <label className="block text-slate-400">
+                Voluntary pension
+                <input type="number" min={0} value={scenario.deductions.voluntaryPension || ''} onChange={(e) => updateDeduction(scenario, 'voluntaryPension', e.target.value)} className={inputClass} />
+              </label>
+              <label className="block text-slate-400">
+                Rent paid
+                <input type="number" min={0} value={scenario.annualRent || ''} onChange={(e) => update(scenario.id, { annualRent: amount(e.target.value) })} className={inputClass} />
+              </label>
+              <label className="block text-slate-400">
+                Life assurance
+                <input type="number" min={0} value={scenario.deductions.lifeAssurance || ''} onChange={(e) => updateDeduction(scenario, 'lifeAssurance', e.target.value)} className={inputClass} />
+              </label>
+              <div className="pt-2 border-t border-slate-100 space-y-2">
+                {summaryRows({ scenario, ...result })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">Regime comparison · same income and deductions</p>
+          <table className="w-full text-xs">
+            <thead className="text-[10px] uppercase text-slate-400">
+              <tr>
+                <th className="text-left font-medium pb-1">Regime</th>
+                <th className="text-right font-medium pb-1">Reliefs</th>
+                <th className="text-right font-medium pb-1">Tax</th>
+                <th className="text-right font-medium pb-1">Effective rate</th>
+                <th className="text-right font-medium pb-1">Take-home</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {regimes.map(r => (
+                <tr key={r.tax.regime} className={r.tax.regime === baseline.regime ? 'font-semibold text-slate-900' : 'text-slate-600'}>
+                  <td className="py-1.5">{r.tax.ruleSetName}{r.tax.regime === baseline.regime && ' (this audit)'}</td>
+                  <td className="py-1.5 text-right font-mono">{formatter.format(r.tax.totalRelief)}</td>
+                  <td className="py-1.5 text-right font-mono">{formatter.format(r.tax.totalTax)}</td>
+                  <td className="py-1.5 text-right font-mono">{r.tax.effectiveRate.toFixed(1)}%</td>
+                  <td className="py-1.5 text-right font-mono">{formatter.format(r.takeHome)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioPlanner;
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { X, FolderOpen, Copy, Trash2, Lock, Save } from 'lucide-react';
+import { AuditSessionMeta, CurrentSession, SaveSessionRequest } from '../types';
+import { listSessions, duplicateSession, deleteSession } from '../services/sessionService';
+
+interface SessionsManagerProps {
+  currentSession: CurrentSession | null;
+  canSave: boolean;
+  /** Client name to offer when saving a new session, from the taxpayer profile */
+  defaultClient?: string;
+  onSave: (request: SaveSessionRequest) => Promise<void>;
+  onOpen: (id: string, passphrase?: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "mt-1 w-full px-3 py-2 bg-slate-50 border-none rounded-lg text-sm text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+const labelClass = "block text-xs font-medium text-slate-500";
+
+const formatter = new Intl.NumberFormat('en-NG', { style: 'currency', currency: 'NGN', maximumFractionDigits: 0 });
+
+const SessionsManager: React.FC<SessionsManagerProps> = ({ currentSession, canSave, defaultClient, onSave, onOpen, onClose }) => {
+  const [sessions, setSessions] = useState<AuditSessionMeta[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [name, setName] = useState(currentSession?.name ?? '');
+  const [client, setClient] = useState(currentSession?.client ?? defaultClient ?? '');
+  const [encrypt, setEncrypt] = useState(Boolean(currentSession?.passphrase));
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+
+  const refresh = () => listSessions().then(setSessions).catch((e: Error) => setError(e.message));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Runs a storage action with a shared busy flag and error banner
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message || "Something went wrong with browser storage.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      setError("Give the session a name.");
+      return;
+    }
+    if (encrypt && !passphrase && !currentSession?.passphrase) {
+      setError("Enter a passphrase, or turn encryption off.");
+      return;
+    }
+    if (encrypt && passphrase !== confirmPassphrase) {
+      setError("The passphrases do not match.");
+      return;
+    }
+    run(async () => {
+      await onSave({ name: name.trim(), client: client.trim(), encrypt, passphrase: passphrase || undefined });
+      setPassphrase('');
+      setConfirmPassphrase('');
+      await refresh();
+    });
+  };
+
+  const handleOpen = (session: AuditSessionMeta) => {
+    if (session.encrypted && unlockingId !== session.id) {
+      setUnlockingId(session.id);
+      setUnlockPassphrase('');
+      return;
+    }
+    run(() => onOpen(session.id, session.encrypted ? unlockPassphrase : undefined));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-emerald-950/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col animate-fade-in border border-emerald-100">
+        <div className="p-1 bg-gradient-to-r from-emerald-800 via-emerald-600 to-emerald-500"></div>
+
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <FolderOpen className="w-5 h-5 text-emerald-700" />
+            Audit Sessions
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-emerald-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 p-3 rounded-xl text-xs font-medium text-red-600">{error}</div>
+          )}
+
+          {canSave && (
+            <div className="space-y-3 p-4 bg-slate-50/60 rounded-xl border border-slate-100">
+              <div className="text-xs font-bold uppercase tracking-wider text-slate-400">
+                {currentSession ? 'Current session · saved automatically' : 'Save current audit'}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <label className={labelClass}>
+                  Session name
+                  <input className={inputClass} value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Adeyemi 2024 return" />
+                </label>
+                <label className={labelClass}>
+                  Client
+                  <input className={inputClass} value={client} onChange={(e) => setClient(e.target.value)} placeholder="Taxpayer or company" />
+                </label>
+              </div>
+              <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+                <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} className="accent-emerald-700" />
+                Encrypt at rest with a passphrase
+              </label>
+              {encrypt && (
+                <div className="grid grid-cols-2 gap-3">
+                  <label className={labelClass}>
+                    Passphrase
+                    <input
+                      type="password"
+                      className={inputClass}
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      placeholder={currentSession?.passphrase ? 'Unchanged' : ''}
+                    />
+                  </label>
+                  <label className={labelClass}>
+                    Confirm passphrase
+                    <input type="password" className={inputClass} value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} />
+                  </label>
+                  <p className="col-span-2 text-[11px] text-slate-400">
+                    The passphrase is never stored. If it is lost, the session cannot be recovered.
+                  </p>
+                </div>
+              )}
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSave}
+                  disabled={isBusy}
+                  className="flex items-center gap-2 px-4 py-2 text-xs font-bold uppercase tracking-wider text-white bg-emerald-700 hover:bg-emerald-800 rounded-lg disabled:opacity-50"
+                >
+                  <Save className="w-3.5 h-3.5" />
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-xs font-bold uppercase tracking-wider text-slate-400">Saved in this browser</div>
+            {sessions.length === 0 ? (
+              <p className="text-sm text-slate-400 py-6 text-center">No saved sessions yet.</p>
+            ) : (
+              <ul className="divide-y divide-slate-100 border border-slate-100 rounded-xl">
+                {sessions.map(session => (
+                  <li key={session.id} className={`px-4 py-3 ${session.id === currentSession?.id ? 'bg-emerald-50/50' : ''}`}>
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-slate-800 truncate flex items-center gap-1.5">
+                          {session.encrypted && <Lock className="w-3 h-3 text-slate-400 shrink-0" />}
+                          {session.name}
+                        </div>
+                        <div className="text-xs text-slate-400 truncate">
+                          {[
+                            session.client,
+                            session.assessmentYear && `YOA ${session.assessmentYear}`,
+                            session.transactionCount !== undefined && `${session.transactionCount} rows`,
+                            session.totalTax !== undefined && `Tax ${formatter.format(session.totalTax)}`,
+                            `Updated ${new Date(session.updatedAt).toLocaleString('en-NG')}`
+                          ].filter(Boolean).join(' · ')}
+                        </div>
+                      </div>
+                      <button onClick={() => handleOpen(session)} disabled={isBusy} className="p-1.5 text-slate-400 hover:text-emerald-700" title="Open">
+                        <FolderOpen className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => run(async () => { await duplicateSession(session.id); await refresh(); })} disabled={isBusy} className="p-1.5 text-slate-400 hover:text-emerald-700" title="Duplicate">
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => window.confirm(`Delete "${session.name}"? This cannot be undone.`) && run(async () => { await deleteSession(session.id); await refresh(); })}
+                        disabled={isBusy || session.id === currentSession?.id}
+                        className="p-1.5 text-slate-400 hover:text-red-600 disabled:opacity-30"
+                        title={session.id === currentSession?.id ? 'Close this session before deleting it' : 'Delete'}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {unlockingId === session.id && (
+                      <div className="flex items-center gap-2 mt-2">
+                        <input
+                          type="password"
+                          autoFocus
+                          value={unlockPassphrase}
+                          onChange={(e) => setUnlockPassphrase(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleOpen(session)}
+                          placeholder="Passphrase"
+                          className="flex-1 px-3 py-2 bg-slate-50 border-none rounded-lg text-sm text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                        />
+                        <button
+                          onClick={() => handleOpen(session)}
+                          disabled={isBusy || !unlockPassphrase}
+                          className="px-4 py-2 text-xs font-bold uppercase tracking-wider text-white bg-emerald-700 hover:bg-emerald-800 rounded-lg disabled:opacity-50"
+                        >
+                          Unlock
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionsManager;
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { X, FileSearch, AlertTriangle, Loader2 } from 'lucide-react';
+import { ReviewFlag, SourceDocument, StatementFile, Transaction } from '../types';
+import { renderPdfPage } from '../services/pdfRenderer';
+import { isStructuredStatement } from '../services/parsers';
+import { LOW_CONFIDENCE_THRESHOLD } from '../services/reviewService';
+
+interface SourceViewerProps {
+  transaction: Transaction;
+  statement?: StatementFile;
+  /** Missing for sessions reopened from storage and for manual rows */
+  source?: SourceDocument;
+  flags: ReviewFlag[];
+  formatter: Intl.NumberFormat;
+  onClose: () => void;
+}
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ transaction: t, statement, source, flags, formatter, onClose }) => {
+  const [page, setPage] = useState<string | null>(null);
+  const [pageError, setPageError] = useState<string | null>(null);
+  // CSV, OFX and MT940 rows are read locally from text; there is no page to show
+  const isStructured = !!statement && isStructuredStatement(statement.fileName, '');
+
+  useEffect(() => {
+    setPage(null);
+    setPageError(null);
+    if (!source) return;
+    if (source.mimeType !== 'application/pdf') {
+      setPage(source.base64Data);
+      return;
+    }
+
+    // PDF pages are drawn to an image, so the highlight sits on the page itself rather than on a browser viewer
+    let cancelled = false;
+    renderPdfPage(source.base64Data, t.sourcePage ?? 1)
+      .then(url => {
+        if (!cancelled) setPage(url);
+      })
+      .catch(error => {
+        console.error(error);
+        if (!cancelled) setPageError('This page could not be opened.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, t.sourcePage]);
+
+  const highlight = t.sourceRegion && (
+    <div
+      className="absolute left-0 right-0 bg-yellow-300/30 border-y-2 border-yellow-500 pointer-events-none"
+      style={{ top: `${t.sourceRegion.top * 100}%`, height: `${(t.sourceRegion.bottom - t.sourceRegion.top) * 100}%` }}
+    />
+  );
+
+  const detail = (label: string, value: React.ReactNode) => (
+    <div className="flex justify-between gap-4 py-1.5">
+      <span className="text-slate-400">{label}</span>
+      <span className="text-right text-slate-800">{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-emerald-950/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-6xl w-full h-[90vh] overflow-hidden flex flex-col animate-fade-in border border-emerald-100">
+        <div className="p-1 bg-gradient-to-r from-emerald-800 via-emerald-600 to-emerald-500"></div>
+
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2 min-w-0">
+            <FileSearch className="w-5 h-5 text-emerald-700 shrink-0" />
+            <span className="truncate">
+              {statement?.fileName ?? 'Source'}{t.sourcePage !== undefined && ` · Page ${t.sourcePage}`}
+            </span>
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-emerald-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-[3fr_2fr]">
+          <div className="bg-slate-100 overflow-auto p-4 flex items-start justify-center">
+            {isStructured ? (
+              <p className="self-center text-sm text-slate-400 text-center max-w-xs">
+                This row was read from a {statement!.fileName.split('.').pop()?.toUpperCase()} file, which has no printed page to show. The values read from it are listed alongside.
+              </p>
+            ) : t.manual ? (
+              <p className="self-center text-sm text-slate-400 text-center max-w-xs">
+                This row was added by hand and has no source page.
+              </p>
+            ) : !source ? (
+              <p className="self-center text-sm text-slate-400 text-center max-w-xs">
+                The original file is only kept while the audit is open; it is not saved with sessions.
+              </p>
+            ) : pageError ? (
+              <p className="self-center text-sm text-red-500">{pageError}</p>
+            ) : !page ? (
+              <Loader2 className="self-center w-6 h-6 text-emerald-600 animate-spin" />
+            ) : (
+              <div className="relative shadow">
+                <img src={page} alt="Statement page" className="block max-w-full" />
+                {highlight}
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-y-auto p-6 space-y-6 text-sm border-l border-slate-100">
+            {flags.length > 0 && (
+              <div className="bg-orange-50 p-3 rounded-xl text-xs text-orange-800 space-y-1">
+                {flags.map(flag => (
+                  <p key={flag} className="flex items-center gap-1.5 font-medium">
+                    <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                    {flag}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">As printed</p>
+              <p className="p-3 rounded-lg bg-slate-50 font-mono text-xs text-slate-800 break-words">
+                {t.sourceText ?? <span className="text-slate-400">Not recorded for this row.</span>}
+              </p>
+            </div>
+
+            <div>
+              <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-1">As read</p>
+              <div className="divide-y divide-slate-50 text-xs">
+                {detail('Date', <span className="font-mono">{t.date}</span>)}
+                {detail('Description', t.description)}
+                {detail('Amount', <span className="font-mono">{t.type} {formatter.format(t.amount)}</span>)}
+                {t.balance !== undefined && detail('Balance', <span className="font-mono">{formatter.format(t.balance)}</span>)}
+                {detail('Account', t.sourceAccount ?? statement?.account ?? '—')}
+                {t.confidence !== undefined && detail(
+                  'Confidence',
+                  <span className={`font-mono ${t.confidence < LOW_CONFIDENCE_THRESHOLD ? 'text-orange-600' : 'text-emerald-700'}`}>
+                    {Math.round(t.confidence * 100)}%
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {t.sourceRegion && source && (
+              <p className="text-[11px] text-slate-400">The highlighted band is where the extractor reported the row.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { SplitPart, Transaction } from '../types';
+import { validateSplit } from '../services/ledgerService';
+
+interface SplitTransactionFormProps {
+  transaction: Transaction;
+  formatter: Intl.NumberFormat;
+  onSplit: (parts: SplitPart[]) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "px-3 py-2 bg-slate-50 border-none rounded-lg text-sm text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+
+const SplitTransactionForm: React.FC<SplitTransactionFormProps> = ({ transaction, formatter, onSplit, onCancel }) => {
+  const [parts, setParts] = useState<SplitPart[]>(() => {
+    const half = Math.round(transaction.amount * 50) / 100;
+    return [
+      { description: transaction.description, amount: half },
+      { description: transaction.description, amount: Math.round((transaction.amount - half) * 100) / 100 }
+    ];
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const remaining = transaction.amount - parts.reduce((sum, p) => sum + p.amount, 0);
+
+  const updatePart = (index: number, changes: Partial<SplitPart>) =>
+    setParts(parts.map((p, i) => i === index ? { ...p, ...changes } : p));
+
+  const handleSplit = () => {
+    const message = validateSplit(transaction, parts);
+    if (message) {
+      setError(message);
+      return;
+    }
+    onSplit(parts);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-bold uppercase tracking-wider text-slate-400">
+        Split {formatter.format(transaction.amount)} · {transaction.date}
+      </div>
+      {parts.map((part, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={part.description}
+            onChange={(e) => updatePart(index, { description: e.target.value })}
+            placeholder="Description"
+            className={`${inputClass} flex-1`}
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={part.amount || ''}
+            onChange={(e) => updatePart(index, { amount: Number(e.target.value) || 0 })}
+            placeholder="Amount"
+            className={`${inputClass} w-32 text-right font-mono`}
+          />
+          <button
+            onClick={() => setParts(parts.filter((_, i) => i !== index))}
+            disabled={parts.length <= 2}
+            className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-30"
+            title="Remove part"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between pt-1">
+        <button
+          onClick={() => setParts([...parts, { description: transaction.description, amount: Math.max(0, remaining) }])}
+          className="flex items-center gap-1 text-xs font-bold text-emerald-700 hover:text-emerald-800"
+        >
+          <Plus className="w-3 h-3" />
+          Add part
+        </button>
+        <span className={`text-xs font-mono ${Math.abs(remaining) < 0.005 ? 'text-emerald-600' : 'text-amber-600'}`}>
+          Remaining {formatter.format(remaining)}
+        </span>
+      </div>
+      {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 text-xs font-bold uppercase tracking-wider text-slate-500 hover:bg-slate-100 rounded-lg">
+          Cancel
+        </button>
+        <button onClick={handleSplit} className="px-4 py-2 text-xs font-bold uppercase tracking-wider text-white bg-emerald-700 hover:bg-emerald-800 rounded-lg">
+          Split
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SplitTransactionForm;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { FileText, Trash2, ArrowRight, EyeOff, AlertTriangle } from 'lucide-react';
+import { StatementFile } from '../types';
+
+interface StatementListProps {
+  statements: StatementFile[];
+  onRemove: (id: string) => void;
+  onContinue: () => void;
+  disabled?: boolean;
+}
+
+const StatementList: React.FC<StatementListProps> = ({ statements, onRemove, onContinue, disabled }) => {
+  const [openLog, setOpenLog] = useState<string | null>(null);
+
+  return (
+    <div className="w-full max-w-xl mx-auto mt-10 bg-white rounded-2xl border border-slate-100 shadow-sm text-left overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+        <div>
+          <h3 className="font-bold text-slate-900">Statements in this audit</h3>
+          <p className="text-xs text-slate-500 mt-0.5">Add more accounts or periods, or continue to the report.</p>
+        </div>
+        <button
+          onClick={onContinue}
+          disabled={disabled}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-emerald-700 text-white text-xs font-bold uppercase tracking-wider rounded-lg hover:bg-emerald-800 transition-colors disabled:opacity-50"
+        >
+          Continue
+          <ArrowRight className="w-3 h-3" />
+        </button>
+      </div>
+
+      <ul className="divide-y divide-slate-50">
+        {statements.map(s => (
+          <li key={s.id} className="px-6 py-3 flex items-center gap-3">
+            <FileText className="w-4 h-4 text-emerald-600 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-slate-800 truncate">{s.account}</div>
+              <div className="text-xs text-slate-400 truncate">
+                {s.fileName} · {s.extractedCount} rows
+                {s.duplicatesRemoved > 0 && ` · ${s.duplicatesRemoved} overlapping rows skipped`}
+              </div>
+              {s.summary.sampleData && (
+                <p className="mt-1 inline-flex items-center gap-1 text-[11px] font-medium text-amber-700">
+                  <AlertTriangle className="w-3 h-3" />
+                  Sample data from the demo engine, not read from this file
+                </p>
+              )}
+              {s.redaction && (
+                <button
+                  onClick={() => setOpenLog(openLog === s.id ? null : s.id)}
+                  className="mt-1 inline-flex items-center gap-1 text-[11px] font-medium text-emerald-700 hover:underline"
+                >
+                  <EyeOff className="w-3 h-3" />
+                  {s.redaction.entries.length} item{s.redaction.entries.length === 1 ? '' : 's'} redacted before upload
+                </button>
+              )}
+              {s.redaction && openLog === s.id && (
+                <div className="mt-2 p-3 rounded-lg bg-slate-50 text-[11px] space-y-1">
+                  {s.redaction.warning && (
+                    <p className="flex items-start gap-1 text-amber-700">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                      {s.redaction.warning}
+                    </p>
+                  )}
+                  {s.redaction.entries.length === 0 && !s.redaction.warning && (
+                    <p className="text-slate-400">No personal details were found.</p>
+                  )}
+                  {s.redaction.entries.map((entry, i) => (
+                    <div key={entry.token ?? i} className="flex justify-between gap-2 text-slate-600">
+                      <span>{entry.kind}{entry.token && <span className="ml-1 font-mono text-slate-400">{entry.token}</span>}</span>
+                      <span className="font-mono">{entry.preview}{entry.occurrences > 1 && ` ×${entry.occurrences}`}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={() => onRemove(s.id)}
+              disabled={disabled}
+              className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+              title="Remove statement"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default StatementList;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { TaxBreakdown } from '../types';
+
+interface TaxWorkingsProps {
+  tax: TaxBreakdown;
+  formatter: Intl.NumberFormat;
+}
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(2))}%`;
+
+const TaxWorkings: React.FC<TaxWorkingsProps> = ({ tax, formatter }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 font-bold uppercase tracking-wider text-slate-400 hover:text-emerald-700"
+      >
+        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        {isOpen ? 'Hide workings' : 'Show workings'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3">
+          <table className="w-full">
+            <thead className="text-[10px] uppercase text-slate-400">
+              <tr>
+                <th className="text-left font-medium pb-1">Band</th>
+                <th className="text-right font-medium pb-1">Rate</th>
+                <th className="text-right font-medium pb-1">Taxed</th>
+                <th className="text-right font-medium pb-1">Tax</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {tax.bands.map(band => (
+                <tr key={band.lowerLimit} className={band.taxableAmount > 0 ? 'text-slate-700' : 'text-slate-300'}>
+                  <td className="py-1.5 font-mono">
+                    {formatter.format(band.lowerLimit)} – {band.upperLimit === undefined ? 'above' : formatter.format(band.upperLimit)}
+                  </td>
+                  <td className="py-1.5 text-right">{formatRate(band.rate)}</td>
+                  <td className="py-1.5 text-right font-mono">{formatter.format(band.taxableAmount)}</td>
+                  <td className="py-1.5 text-right font-mono">{formatter.format(band.tax)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="font-semibold text-slate-700 border-t border-slate-100">
+              <tr>
+                <td className="pt-1.5" colSpan={2}>Tax on bands</td>
+                <td className="pt-1.5 text-right font-mono">{formatter.format(tax.taxableIncome)}</td>
+                <td className="pt-1.5 text-right font-mono">{formatter.format(tax.bandTax)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {tax.minimumTax !== undefined && (
+            <div className={`flex justify-between p-2 rounded-lg ${tax.minimumTaxApplied ? 'bg-amber-50 text-amber-800' : 'bg-slate-50 text-slate-500'}`}>
+              <span>
+                Minimum tax ({formatRate(tax.minimumTax / tax.grossIncome)} of gross)
+                <span className="block text-[10px]">
+                  {tax.minimumTaxApplied ? 'Applies: higher than the tax on bands' : 'Not applicable: lower than the tax on bands'}
+                </span>
+              </span>
+              <span className="font-mono">{formatter.format(tax.minimumTax)}</span>
+            </div>
+          )}
+
+          <div className="flex justify-between text-slate-500">
+            <span>Marginal rate</span>
+            <span className="font-medium text-slate-700">{Number(tax.marginalRate.toFixed(2))}%</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxWorkings;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { X, UserRound } from 'lucide-react';
+import { EmploymentStatus, NigerianState, TaxpayerProfile } from '../types';
+import { STATE_TAX_AUTHORITIES } from '../services/filingService';
+
+interface TaxpayerProfileFormProps {
+  profile: TaxpayerProfile | null;
+  onSave: (profile: TaxpayerProfile) => void;
+  onClose: () => void;
+}
+
+const inputClass = "mt-1 w-full px-3 py-2 bg-slate-50 border-none rounded-lg text-sm text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+const labelClass = "block text-xs font-medium text-slate-500";
+
+const TaxpayerProfileForm: React.FC<TaxpayerProfileFormProps> = ({ profile, onSave, onClose }) => {
+  const [draft, setDraft] = useState<TaxpayerProfile>(profile ?? {
+    name: '',
+    employmentStatus: EmploymentStatus.EMPLOYED,
+    dependents: 0
+  });
+  const [error, setError] = useState<string | null>(null);
+  const update = (changes: Partial<TaxpayerProfile>) => setDraft({ ...draft, ...changes });
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      setError("Enter the taxpayer's name.");
+      return;
+    }
+    const tin = draft.tin?.trim();
+    if (tin && !/^\d{8}-?\d{4}$|^\d{10}$/.test(tin)) {
+      setError("A TIN is 10 digits, or 12 for the older 8-4 format.");
+      return;
+    }
+    onSave({ ...draft, name: draft.name.trim(), tin: tin || undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-emerald-950/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-hidden flex flex-col animate-fade-in border border-emerald-100">
+        <div className="p-1 bg-gradient-to-r from-emerald-800 via-emerald-600 to-emerald-500"></div>
+
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <UserRound className="w-5 h-5 text-emerald-700" />
+            Taxpayer Profile
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-emerald-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 p-3 rounded-xl text-xs font-medium text-red-600">{error}</div>
+          )}
+          <label className={labelClass}>
+            Name
+            <input className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="As registered for tax" />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className={labelClass}>
+              TIN
+              <input className={`${inputClass} font-mono`} value={draft.tin ?? ''} onChange={(e) => update({ tin: e.target.value })} placeholder="Optional" />
+            </label>
+            <label className={labelClass}>
+              State of residence
+              <select
+                className={inputClass}
+                value={draft.state ?? ''}
+                onChange={(e) => update({ state: (e.target.value || undefined) as NigerianState | undefined })}
+              >
+                <option value="">Select State</option>
+                {Object.values(NigerianState).map(state => <option key={state} value={state}>{state}</option>)}
+              </select>
+            </label>
+            <label className={labelClass}>
+              Employment status
+              <select
+                className={inputClass}
+                value={draft.employmentStatus}
+                onChange={(e) => update({ employmentStatus: e.target.value as EmploymentStatus })}
+              >
+                {Object.values(EmploymentStatus).map(status => <option key={status} value={status}>{status}</option>)}
+              </select>
+            </label>
+            <label className={labelClass}>
+              Dependents
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={draft.dependents}
+                onChange={(e) => update({ dependents: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+              />
+            </label>
+          </div>
+          {draft.state && (
+            <p className="text-xs text-slate-500">
+              PIT is filed with the <span className="font-medium text-emerald-700">{STATE_TAX_AUTHORITIES[draft.state].name}</span>.
+            </p>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} className="text-xs font-bold uppercase tracking-wider text-slate-500 hover:text-slate-700 px-4 py-2 rounded-lg">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="bg-emerald-900 text-white px-6 py-2 rounded-lg hover:bg-emerald-800 transition-colors font-bold text-xs uppercase tracking-wider">
+            Save Profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaxpayerProfileForm;
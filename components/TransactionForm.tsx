@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { StatementFile, TransactionDraft, TransactionType } from '../types';
+import { validateTransactionDraft } from '../services/ledgerService';
+
+interface TransactionFormProps {
+  initial?: TransactionDraft;
+  /** Offered when adding a row to an audit that spans several statements */
+  statements?: StatementFile[];
+  onSave: (draft: TransactionDraft, statementId?: string) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_DRAFT: TransactionDraft = { date: '', description: '', amount: 0, type: TransactionType.CREDIT };
+
+const inputClass = "px-3 py-2 bg-slate-50 border-none rounded-lg text-sm text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+
+const TransactionForm: React.FC<TransactionFormProps> = ({ initial = EMPTY_DRAFT, statements = [], onSave, onCancel }) => {
+  const [draft, setDraft] = useState<TransactionDraft>(initial);
+  const [statementId, setStatementId] = useState(statements[0]?.id);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const message = validateTransactionDraft(draft);
+    if (message) {
+      setError(message);
+      return;
+    }
+    onSave(draft, statementId);
+  };
+
+  return (
+    <div
+      className="space-y-2"
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') handleSave();
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="date"
+          value={draft.date}
+          onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+          className={`${inputClass} font-mono text-xs`}
+        />
+        <input
+          type="text"
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder="Description"
+          autoFocus
+          className={`${inputClass} flex-1 min-w-[160px]`}
+        />
+        <select
+          value={draft.type}
+          onChange={(e) => setDraft({ ...draft, type: e.target.value as TransactionType })}
+          className={inputClass}
+        >
+          <option value={TransactionType.CREDIT}>Credit</option>
+          <option value={TransactionType.DEBIT}>Debit</option>
+        </select>
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={draft.amount || ''}
+          onChange={(e) => setDraft({ ...draft, amount: Number(e.target.value) || 0 })}
+          placeholder="Amount"
+          className={`${inputClass} w-32 text-right font-mono`}
+        />
+        {statements.length > 1 && (
+          <select value={statementId} onChange={(e) => setStatementId(e.target.value)} className={inputClass}>
+            {statements.map(s => (
+              <option key={s.id} value={s.id}>{s.account}</option>
+            ))}
+          </select>
+        )}
+        <button onClick={handleSave} className="p-2 text-emerald-700 hover:bg-emerald-50 rounded-lg" title="Save (Enter)">
+          <Check className="w-4 h-4" />
+        </button>
+        <button onClick={onCancel} className="p-2 text-slate-400 hover:bg-slate-100 rounded-lg" title="Cancel (Esc)">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-500 font-medium">{error}</p>}
+    </div>
+  );
+};
+
+export default TransactionForm;
@@ -0,0 +1,144 @@
+import React from 'react';
+import { Receipt, Download, Plus, Trash2 } from 'lucide-react';
+import { VatRatePeriod, VatReturnSummary } from '../types';
+import { vatReturnToCsv } from '../services/vatService';
+import { downloadBlob } from '../services/downloadService';
+
+interface VatReturnProps {
+  summary: VatReturnSummary;
+  rates: VatRatePeriod[];
+  onRatesChange: (rates: VatRatePeriod[]) => void;
+  formatter: Intl.NumberFormat;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const monthLabel = (month: string) => `${MONTH_LABELS[parseInt(month.slice(5, 7), 10) - 1]} ${month.slice(0, 4)}`;
+
+const inputClass = "px-2 py-1 bg-slate-50 border-none rounded-md text-xs font-mono text-slate-900 focus:ring-2 focus:ring-emerald-500/20 outline-none";
+
+const VatReturn: React.FC<VatReturnProps> = ({ summary, rates, onRatesChange, formatter }) => {
+  const updateRate = (index: number, changes: Partial<VatRatePeriod>) => {
+    onRatesChange(rates.map((r, i) => i === index ? { ...r, ...changes } : r));
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([vatReturnToCsv(summary)], { type: 'text/csv;charset=utf-8;' }), 'nairasync_vat_return.csv');
+  };
+
+  const lines: { label: string; value: (m: VatReturnSummary['months'][number]) => number; strong?: boolean }[] = [
+    { label: 'Total sales (net of VAT)', value: m => m.totalSales },
+    { label: 'Less: exempt sales', value: m => m.exemptSales },
+    { label: 'Less: zero-rated sales', value: m => m.zeroRatedSales },
+    { label: 'Standard-rated sales', value: m => m.standardRatedSales },
+    { label: 'Output VAT', value: m => m.outputVat, strong: true },
+    { label: 'Standard-rated purchases', value: m => m.standardRatedPurchases },
+    { label: 'Input VAT', value: m => m.inputVat, strong: true }
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+      <div className="p-6 border-b border-slate-50 flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+            <Receipt className="w-5 h-5 text-slate-400" />
+            VAT Return
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Tag rows as standard-rated, zero-rated or exempt in the transactions table. Amounts are treated as VAT-inclusive.
+          </p>
+        </div>
+        <div className="flex items-start gap-4">
+          <div className="space-y-1 text-xs">
+            {rates.map((r, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="text-slate-400">From</span>
+                <input type="month" value={r.from} onChange={(e) => updateRate(i, { from: e.target.value })} className={inputClass} />
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={Number((r.rate * 100).toFixed(2))}
+                  onChange={(e) => updateRate(i, { rate: Math.max(0, Number(e.target.value) || 0) / 100 })}
+                  className={`${inputClass} w-16 text-right`}
+                />
+                <span className="text-slate-400">%</span>
+                <button
+                  onClick={() => onRatesChange(rates.filter((_, j) => j !== i))}
+                  disabled={rates.length === 1}
+                  className="text-slate-300 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-300"
+                  title="Remove rate period"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onRatesChange([...rates, { from: summary.months[summary.months.length - 1]?.month ?? new Date().toISOString().slice(0, 7), rate: rates[rates.length - 1]?.rate ?? 0 }])}
+              className="flex items-center gap-1 text-slate-400 hover:text-emerald-700"
+            >
+              <Plus className="w-3 h-3" /> Rate period
+            </button>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={summary.months.length === 0}
+            className="p-2 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors disabled:opacity-30"
+            title="Export VAT schedule (CSV)"
+          >
+            <Download className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {summary.months.length === 0 ? (
+        <p className="p-12 text-center text-sm text-slate-400">No rows tagged for VAT yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-[10px] uppercase text-slate-400">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">Return line</th>
+                {summary.months.map(m => (
+                  <th key={m.month} className="px-4 py-2 text-right font-medium">
+                    {monthLabel(m.month)}
+                    <span className="block normal-case">@ {Number((m.rate * 100).toFixed(2))}%</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {lines.map(line => (
+                <tr key={line.label} className={line.strong ? 'font-semibold text-slate-900' : 'text-slate-600'}>
+                  <td className="px-4 py-2">{line.label}</td>
+                  {summary.months.map(m => (
+                    <td key={m.month} className="px-4 py-2 text-right font-mono">{formatter.format(line.value(m))}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-slate-50/60 font-semibold">
+              <tr>
+                <td className="px-4 py-2 text-slate-700">Net VAT payable / (refundable)</td>
+                {summary.months.map(m => (
+                  <td key={m.month} className={`px-4 py-2 text-right font-mono ${m.netVat < 0 ? 'text-emerald-600' : 'text-slate-900'}`}>
+                    {m.netVat < 0 ? `(${formatter.format(-m.netVat)})` : formatter.format(m.netVat)}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+          <div className="px-6 py-3 flex justify-end gap-6 text-xs text-slate-500 border-t border-slate-50">
+            <span>Output VAT <span className="font-mono text-slate-900">{formatter.format(summary.totalOutputVat)}</span></span>
+            <span>Input VAT <span className="font-mono text-slate-900">{formatter.format(summary.totalInputVat)}</span></span>
+            <span>
+              {summary.netVat < 0 ? 'Refundable' : 'Payable'}{' '}
+              <span className="font-mono font-bold text-slate-900">{formatter.format(Math.abs(summary.netVat))}</span>
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VatReturn;
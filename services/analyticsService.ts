@@ -0,0 +1,80 @@
+import { BalancePoint, CategoryTotal, CounterpartyTotal, StatementFile, Transaction, TransactionCategory, TransactionFilter, TransactionType } from "../types";
+import { classifyTransaction } from "./classificationService";
+
+export const EMPTY_FILTER: TransactionFilter = { categories: [] };
+
+export const isFilterActive = (filter: TransactionFilter): boolean =>
+  Boolean(filter.dateFrom || filter.dateTo || filter.categories.length > 0);
+
+export const filterTransactions = (transactions: Transaction[], filter: TransactionFilter): Transaction[] =>
+  transactions.filter(t =>
+    // ISO dates compare correctly as strings
+    (!filter.dateFrom || t.date >= filter.dateFrom) &&
+    (!filter.dateTo || t.date <= filter.dateTo) &&
+    (filter.categories.length === 0 || filter.categories.includes(t.category ?? classifyTransaction(t)))
+  );
+
+/**
+ * Totals per category for one side of the ledger, largest first.
+ */
+export const summariseByCategory = (transactions: Transaction[], type: TransactionType): CategoryTotal[] => {
+  const totals = new Map<TransactionCategory, number>();
+  for (const t of transactions) {
+    if (t.type !== type) continue;
+    const category = t.category ?? classifyTransaction(t);
+    totals.set(category, (totals.get(category) ?? 0) + t.amount);
+  }
+  return [...totals.entries()]
+    .map(([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+// Rows without a tagged counterparty are grouped by description, with references and amounts dropped
+const counterpartyName = (t: Transaction): string =>
+  t.counterparty ?? (t.description.replace(/[0-9]+/g, ' ').replace(/[^A-Za-z&.' ]+/g, ' ').replace(/\s+/g, ' ').trim().toUpperCase().slice(0, 40) || 'UNKNOWN');
+
+/**
+ * Counterparties by total value moved, largest first.
+ */
+export const topCounterparties = (transactions: Transaction[], limit = 8): CounterpartyTotal[] => {
+  const totals = new Map<string, CounterpartyTotal>();
+  for (const t of transactions) {
+    const name = counterpartyName(t);
+    const entry = totals.get(name) ?? { name, inflow: 0, outflow: 0, count: 0 };
+    if (t.type === TransactionType.CREDIT) entry.inflow += t.amount;
+    else entry.outflow += t.amount;
+    entry.count++;
+    totals.set(name, entry);
+  }
+  return [...totals.values()]
+    .sort((a, b) => (b.inflow + b.outflow) - (a.inflow + a.outflow))
+    .slice(0, limit);
+};
+
+/**
+ * End-of-day balance across all accounts, oldest day first.
+ * Starts from each account's opening balance on its earliest statement, or zero where none was read.
+ */
+export const computeRunningBalance = (transactions: Transaction[], statements: StatementFile[]): BalancePoint[] => {
+  // 1. Opening balance of each account's earliest statement
+  // The earliest row of any date, since statements printed newest-first start with their latest row
+  const firstDate = (id: string) => transactions
+    .filter(t => t.sourceFile === id)
+    .reduce((min, t) => t.date < min ? t.date : min, '9999-12-31');
+  const earliest = new Map<string, StatementFile>();
+  for (const s of statements) {
+    const current = earliest.get(s.account);
+    if (!current || firstDate(s.id) < firstDate(current.id)) earliest.set(s.account, s);
+  }
+  let balance = [...earliest.values()].reduce((sum, s) => sum + (s.summary.openingBalance ?? 0), 0);
+
+  // 2. Net movement per day
+  const points: BalancePoint[] = [];
+  for (const t of [...transactions].sort((a, b) => a.date.localeCompare(b.date))) {
+    balance += t.type === TransactionType.CREDIT ? t.amount : -t.amount;
+    const last = points[points.length - 1];
+    if (last && last.date === t.date) last.balance = balance;
+    else points.push({ date: t.date, balance });
+  }
+  return points;
+};
@@ -0,0 +1,155 @@
+import { MonthlyCashFlow, StatementFile, StatementSummary, Transaction, TransactionType } from "../types";
+import { isTaxableIncome } from "./classificationService";
+
+// Transfers between banks can take a day or two to land
+const TRANSFER_WINDOW_DAYS = 2;
+const DAY_MS = 86400000;
+
+/**
+ * Short label for the account a statement belongs to, e.g. "GTBank ••6789".
+ */
+export const describeAccount = (summary: StatementSummary, fileName: string): string => {
+  const digits = summary.accountNumber?.replace(/\D/g, '');
+  const suffix = digits ? `••${digits.slice(-4)}` : '';
+  if (summary.bankName || suffix) {
+    return [summary.bankName, suffix].filter(Boolean).join(' ');
+  }
+  return fileName.replace(/\.[^.]+$/, '');
+};
+
+const accountDigits = (summary: StatementSummary) => summary.accountNumber?.replace(/\D/g, '') || undefined;
+
+const bankKey = (summary: StatementSummary) => summary.bankName?.toUpperCase().replace(/[^A-Z0-9]/g, '') || undefined;
+
+/**
+ * Masked numbers such as "******6789" keep only their last digits, so a shorter number matches the end of a longer one.
+ * Last digits are shared across banks, so a partial match also needs the same bank name.
+ */
+const sameAccount = (a: StatementSummary, b: StatementSummary) => {
+  const digitsA = accountDigits(a);
+  const digitsB = accountDigits(b);
+  if (!digitsA || !digitsB) return false;
+  if (digitsA === digitsB) return true;
+  const bank = bankKey(a);
+  return Math.min(digitsA.length, digitsB.length) >= 4 &&
+    (digitsA.endsWith(digitsB) || digitsB.endsWith(digitsA)) &&
+    bank !== undefined && bank === bankKey(b);
+};
+
+/**
+ * Picks the account label for a new statement. Statements are matched on their account-number digits,
+ * so a bank name read differently does not split one account in two; the bank or file name is only
+ * relied on when no number was printed.
+ */
+export const resolveAccount = (statements: StatementFile[], summary: StatementSummary, fileName: string): string => {
+  const digits = accountDigits(summary);
+  if (!digits) return describeAccount(summary, fileName);
+
+  const match = statements.find(s => sameAccount(s.summary, summary));
+  if (match) return match.account;
+
+  // A different number that shortens to an existing label is told apart by its full number
+  const label = describeAccount(summary, fileName);
+  return statements.some(s => s.account === label) ? [summary.bankName, digits].filter(Boolean).join(' ') : label;
+};
+
+const duplicateKey = (t: Transaction) =>
+  [t.sourceAccount ?? '', t.date, t.type, t.amount.toFixed(2), t.description.toUpperCase().replace(/[^A-Z0-9]/g, '')].join('|');
+
+/**
+ * Adds a statement's transactions to the session, skipping rows already imported for the same account
+ * from another file (overlapping statement periods). Repeats within one file are kept, since a statement
+ * can legitimately show two identical rows on the same day.
+ */
+export const mergeStatementTransactions = (
+  existing: Transaction[],
+  incoming: Transaction[]
+): { transactions: Transaction[]; duplicatesRemoved: number } => {
+  const available = new Map<string, number>();
+  for (const t of existing) {
+    const key = duplicateKey(t);
+    available.set(key, (available.get(key) ?? 0) + 1);
+  }
+
+  let duplicatesRemoved = 0;
+  const added = incoming.filter(t => {
+    const key = duplicateKey(t);
+    const count = available.get(key) ?? 0;
+    if (count > 0) {
+      available.set(key, count - 1);
+      duplicatesRemoved++;
+      return false;
+    }
+    return true;
+  });
+
+  // Rows stay in statement order so running balances can still be followed per account
+  return { transactions: [...existing, ...added], duplicatesRemoved };
+};
+
+const dayNumber = (date: string) => Math.floor(Date.parse(date) / DAY_MS);
+
+/**
+ * Pairs a DEBIT in one account with a CREDIT of the same amount in another account within a few days.
+ * Paired rows get a shared `transferPairId` and are treated as own-account transfers, not income.
+ */
+export const pairInterAccountTransfers = (transactions: Transaction[]): Transaction[] => {
+  const result = transactions.map(t => ({ ...t, transferPairId: undefined as string | undefined }));
+
+  // Index credits by amount so each debit only scans candidates of the same value
+  const creditsByAmount = new Map<string, number[]>();
+  result.forEach((t, index) => {
+    if (t.type !== TransactionType.CREDIT || !t.sourceAccount) return;
+    const key = t.amount.toFixed(2);
+    creditsByAmount.set(key, [...(creditsByAmount.get(key) ?? []), index]);
+  });
+
+  const claimed = new Set<number>();
+  result.forEach((debit, debitIndex) => {
+    if (debit.type !== TransactionType.DEBIT || !debit.sourceAccount) return;
+
+    let best = -1;
+    let bestGap = Infinity;
+    for (const creditIndex of creditsByAmount.get(debit.amount.toFixed(2)) ?? []) {
+      const credit = result[creditIndex];
+      if (claimed.has(creditIndex) || credit.sourceAccount === debit.sourceAccount) continue;
+
+      const gap = Math.abs(dayNumber(credit.date) - dayNumber(debit.date));
+      if (gap <= TRANSFER_WINDOW_DAYS && gap < bestGap) {
+        best = creditIndex;
+        bestGap = gap;
+      }
+    }
+
+    if (best !== -1) {
+      const pairId = `transfer-${debitIndex}-${best}`;
+      claimed.add(best);
+      result[debitIndex].transferPairId = pairId;
+      result[best].transferPairId = pairId;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Inflow, outflow and taxable income per calendar month, oldest month first.
+ */
+export const summariseMonthlyCashFlow = (transactions: Transaction[]): MonthlyCashFlow[] => {
+  const months = new Map<string, MonthlyCashFlow>();
+
+  for (const t of transactions) {
+    const month = t.date.slice(0, 7);
+    const entry = months.get(month) ?? { month, inflow: 0, outflow: 0, net: 0, taxableIncome: 0 };
+    if (t.type === TransactionType.CREDIT) {
+      entry.inflow += t.amount;
+      if (isTaxableIncome(t)) entry.taxableIncome += t.amount;
+    } else {
+      entry.outflow += t.amount;
+    }
+    entry.net = entry.inflow - entry.outflow;
+    months.set(month, entry);
+  }
+
+  return [...months.values()].sort((a, b) => a.month.localeCompare(b.month));
+};
@@ -0,0 +1,73 @@
+import { BusinessProfitLoss, CapitalAllowanceLine, ExpenseCategory, IncomeCategory, Transaction, TransactionType } from "../types";
+import { classifyTransaction, isTaxableIncome } from "./classificationService";
+import { CAPITAL_ALLOWANCE_RATES } from "./taxRules";
+
+const isBusinessIncome = (t: Transaction) =>
+  isTaxableIncome(t) && (t.category ?? classifyTransaction(t)) === IncomeCategory.BUSINESS;
+
+/**
+ * First-year capital allowance on one asset: the initial allowance on cost,
+ * plus the annual allowance on the residue.
+ */
+export const computeCapitalAllowance = (t: Transaction): CapitalAllowanceLine | null => {
+  if (t.type !== TransactionType.DEBIT || t.expenseTreatment !== 'CAPITAL' || !t.assetClass) return null;
+  const rate = CAPITAL_ALLOWANCE_RATES[t.assetClass];
+  const initialAllowance = t.amount * rate.initial;
+  return {
+    date: t.date,
+    description: t.description,
+    assetClass: t.assetClass,
+    cost: t.amount,
+    initialAllowance,
+    annualAllowance: (t.amount - initialAllowance) * rate.annual
+  };
+};
+
+/**
+ * Profit-and-loss for a sole trader or freelancer, built from the statement.
+ * Turnover is taxable business inflow; only DEBITs marked WREN are deducted, and capital items
+ * get capital allowances instead. Other taxable income is added after the business profit.
+ */
+export const computeBusinessProfitLoss = (transactions: Transaction[]): BusinessProfitLoss => {
+  // 1. Turnover and other income
+  const turnover = transactions.filter(isBusinessIncome).reduce((sum, t) => sum + t.amount, 0);
+  const otherIncome = transactions
+    .filter(t => isTaxableIncome(t) && !isBusinessIncome(t))
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  // 2. Allowable (WREN) expenses by category
+  const expenses = new Map<ExpenseCategory, number>();
+  for (const t of transactions) {
+    if (t.type !== TransactionType.DEBIT || t.expenseTreatment !== 'WREN') continue;
+    const category = (t.category ?? classifyTransaction(t)) as ExpenseCategory;
+    expenses.set(category, (expenses.get(category) ?? 0) + t.amount);
+  }
+  const expensesByCategory = [...expenses.entries()]
+    .map(([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount);
+  const allowableExpenses = expensesByCategory.reduce((sum, e) => sum + e.amount, 0);
+
+  const netProfit = turnover - allowableExpenses;
+
+  // 3. Capital allowances, absorbed by profit only; the excess is carried forward
+  const capitalAllowances = transactions
+    .map(computeCapitalAllowance)
+    .filter((line): line is CapitalAllowanceLine => line !== null);
+  const totalCapitalAllowances = capitalAllowances.reduce((sum, line) => sum + line.initialAllowance + line.annualAllowance, 0);
+  const allowancesUsed = Math.min(totalCapitalAllowances, Math.max(0, netProfit));
+  const assessableProfit = Math.max(0, netProfit) - allowancesUsed;
+
+  return {
+    turnover,
+    allowableExpenses,
+    expensesByCategory,
+    netProfit,
+    capitalAllowances,
+    totalCapitalAllowances,
+    unabsorbedAllowances: totalCapitalAllowances - allowancesUsed,
+    assessableProfit,
+    lossCarriedForward: Math.max(0, -netProfit),
+    otherIncome,
+    totalIncome: assessableProfit + otherIncome
+  };
+};
@@ -0,0 +1,74 @@
+import { CapitalGainsSummary, DisposalAssetType, DisposalLine, Transaction, TransactionType } from "../types";
+import { getCgtRuleSet, getTaxRuleSet } from "./taxRules";
+import { computeBandWorkings } from "./taxService";
+
+const sumBandTax = (taxableIncome: number, assessmentYear: number) =>
+  computeBandWorkings(taxableIncome, getTaxRuleSet(assessmentYear).bands).reduce((sum, band) => sum + band.tax, 0);
+
+/**
+ * Computes capital gains tax on the disposals marked in an assessment year.
+ * Where the rules tax gains on the PIT scale, the gain is stacked on top of `taxableIncome`
+ * and charged the extra band tax it causes.
+ */
+export const computeCapitalGains = (
+  transactions: Transaction[],
+  assessmentYear: number,
+  taxableIncome = 0
+): CapitalGainsSummary => {
+  const ruleSet = getCgtRuleSet(assessmentYear);
+  const disposals = transactions.filter(t =>
+    t.type === TransactionType.CREDIT && t.disposal && t.date.startsWith(`${assessmentYear}-`)
+  );
+
+  // 1. Share exemption is tested on the year's share disposals together
+  const shares = disposals.filter(t => t.disposal!.assetType === DisposalAssetType.SHARES);
+  const shareProceeds = shares.reduce((sum, t) => sum + t.amount, 0);
+  const shareGains = shares.reduce((sum, t) => sum + t.amount - t.disposal!.acquisitionCost - t.disposal!.incidentalCosts, 0);
+  const { proceedsLimit, gainLimit } = ruleSet.shareExemption;
+  const sharesExempt = (proceedsLimit === undefined || shareProceeds < proceedsLimit) &&
+    (gainLimit === undefined || shareGains <= gainLimit);
+
+  // 2. Gain or loss per disposal
+  const lines: DisposalLine[] = disposals.map(t => {
+    const { assetType, acquisitionCost, incidentalCosts } = t.disposal!;
+    const exemptReason =
+      assetType === DisposalAssetType.PRINCIPAL_RESIDENCE ? 'Principal private residence'
+        : assetType === DisposalAssetType.PRIVATE_VEHICLE ? 'Private motor vehicle'
+        : assetType === DisposalAssetType.SHARES && sharesExempt ? 'Share disposals within the exemption limits'
+        : undefined;
+    return {
+      date: t.date,
+      description: t.description,
+      assetType,
+      proceeds: t.amount,
+      acquisitionCost,
+      incidentalCosts,
+      gain: t.amount - acquisitionCost - incidentalCosts,
+      exempt: exemptReason !== undefined,
+      exemptReason
+    };
+  });
+
+  // 3. Chargeable gain, with losses set off only where allowed
+  const chargeable = lines.filter(line => !line.exempt);
+  const gains = chargeable.reduce((sum, line) => sum + Math.max(0, line.gain), 0);
+  const losses = chargeable.reduce((sum, line) => sum + Math.max(0, -line.gain), 0);
+  const allowableLosses = ruleSet.lossesAllowed ? Math.min(gains, losses) : 0;
+  const chargeableGain = gains - allowableLosses;
+
+  // 4. Flat CGT rate, or the extra PIT the gain causes on top of taxable income
+  const tax = ruleSet.rate !== undefined
+    ? chargeableGain * ruleSet.rate
+    : sumBandTax(taxableIncome + chargeableGain, assessmentYear) - sumBandTax(taxableIncome, assessmentYear);
+
+  return {
+    assessmentYear,
+    ruleSetName: ruleSet.name,
+    lines,
+    totalProceeds: lines.reduce((sum, line) => sum + line.proceeds, 0),
+    exemptGains: lines.filter(line => line.exempt).reduce((sum, line) => sum + Math.max(0, line.gain), 0),
+    allowableLosses,
+    chargeableGain,
+    tax
+  };
+};
@@ -0,0 +1,75 @@
+import { Transaction, TransactionType, IncomeCategory, ExpenseCategory, TransactionCategory } from "../types";
+
+export const INCOME_CATEGORIES: Record<IncomeCategory, { label: string; taxable: boolean }> = {
+  [IncomeCategory.SALARY]: { label: 'Salary', taxable: true },
+  [IncomeCategory.BUSINESS]: { label: 'Business Income', taxable: true },
+  [IncomeCategory.RENTAL]: { label: 'Rental Income', taxable: true },
+  // Dividends and bank interest suffer a final WHT at source, so they stay out of PIT gross income
+  [IncomeCategory.DIVIDEND]: { label: 'Dividend', taxable: false },
+  [IncomeCategory.INTEREST]: { label: 'Interest', taxable: false },
+  [IncomeCategory.OWN_TRANSFER]: { label: 'Own-Account Transfer', taxable: false },
+  [IncomeCategory.LOAN]: { label: 'Loan', taxable: false },
+  [IncomeCategory.REVERSAL]: { label: 'Reversal / Refund', taxable: false },
+  [IncomeCategory.GIFT]: { label: 'Gift', taxable: false },
+};
+
+export const EXPENSE_CATEGORIES: Record<ExpenseCategory, { label: string }> = {
+  [ExpenseCategory.BANK_CHARGES]: { label: 'Bank Charges' },
+  [ExpenseCategory.PURCHASE]: { label: 'Purchases' },
+  [ExpenseCategory.UTILITIES]: { label: 'Utilities & Airtime' },
+  [ExpenseCategory.RENT_PAID]: { label: 'Rent Paid' },
+  [ExpenseCategory.STATUTORY]: { label: 'Statutory Deduction' },
+  [ExpenseCategory.TRANSFER_OUT]: { label: 'Transfer Out' },
+  [ExpenseCategory.OTHER_EXPENSE]: { label: 'Other Expense' },
+};
+
+export const isIncomeCategory = (category: TransactionCategory): category is IncomeCategory =>
+  category in INCOME_CATEGORIES;
+
+export const getCategoryLabel = (category: TransactionCategory): string =>
+  isIncomeCategory(category) ? INCOME_CATEGORIES[category].label : EXPENSE_CATEGORIES[category].label;
+
+// Checked in order; non-income patterns come first so "SALARY REVERSAL" is not taxed.
+const INCOME_PATTERNS: { category: IncomeCategory; pattern: RegExp }[] = [
+  { category: IncomeCategory.REVERSAL, pattern: /\b(REVERSAL|REVERSED|RVSL|REFUND|CHARGEBACK)\b/i },
+  { category: IncomeCategory.LOAN, pattern: /\b(LOAN|DISBURSE(MENT)?|OVERDRAFT)\b/i },
+  { category: IncomeCategory.OWN_TRANSFER, pattern: /\b(OWN ACC(OUNT)?|SELF TRANSFER|TO SELF|SWEEP)\b/i },
+  { category: IncomeCategory.SALARY, pattern: /\b(SALARY|SAL|PAYROLL|WAGES?)\b/i },
+  { category: IncomeCategory.RENTAL, pattern: /\b(RENT|RENTAL|TENANT)\b/i },
+  { category: IncomeCategory.DIVIDEND, pattern: /\b(DIVIDENDS?|DIV)\b/i },
+  { category: IncomeCategory.INTEREST, pattern: /\b(INTEREST|INT PAID|CREDIT INT)\b/i },
+  { category: IncomeCategory.GIFT, pattern: /\b(GIFT|DONATION)\b/i },
+];
+
+const EXPENSE_PATTERNS: { category: ExpenseCategory; pattern: RegExp }[] = [
+  { category: ExpenseCategory.STATUTORY, pattern: /\b(PFA|RSA|PENSIONS?|NHF|NHIS|NHIA)\b/i },
+  { category: ExpenseCategory.BANK_CHARGES, pattern: /\b(CHARGES?|COMMISSION|SMS ALERT|STAMP DUTY|MAINTENANCE FEE|COT)\b/i },
+  { category: ExpenseCategory.UTILITIES, pattern: /\b(AIRTIME|DATA|DSTV|GOTV|IKEDC|EKEDC|AEDC|PHCN|ELECTRICITY)\b/i },
+  { category: ExpenseCategory.RENT_PAID, pattern: /\b(RENT|LANDLORD)\b/i },
+  { category: ExpenseCategory.PURCHASE, pattern: /\b(POS|PURCHASE|WEB PMT|PAYSTACK|FLUTTERWAVE)\b/i },
+  { category: ExpenseCategory.TRANSFER_OUT, pattern: /\b(TRF|TRANSFER|NIP)\b/i },
+];
+
+/**
+ * Guesses the category of a transaction from its description.
+ * Unrecognised inflows default to business income so tax is never understated.
+ */
+export const classifyTransaction = (transaction: Transaction): TransactionCategory => {
+  if (transaction.type === TransactionType.CREDIT) {
+    const match = INCOME_PATTERNS.find(p => p.pattern.test(transaction.description));
+    return match ? match.category : IncomeCategory.BUSINESS;
+  }
+  const match = EXPENSE_PATTERNS.find(p => p.pattern.test(transaction.description));
+  return match ? match.category : ExpenseCategory.OTHER_EXPENSE;
+};
+
+export const isTaxableIncome = (transaction: Transaction): boolean => {
+  if (transaction.type !== TransactionType.CREDIT) return false;
+  // Disposal proceeds are taxed under CGT, not PIT
+  if (transaction.disposal) return false;
+  // The credit leg of a transfer between the taxpayer's own accounts is never income
+  if (transaction.transferPairId && transaction.categorySource !== 'USER') return false;
+  if (transaction.taxable !== undefined) return transaction.taxable;
+  const category = transaction.category ?? classifyTransaction(transaction);
+  return isIncomeCategory(category) ? INCOME_CATEGORIES[category].taxable : true;
+};
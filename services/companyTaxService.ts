@@ -0,0 +1,60 @@
+import { BusinessProfitLoss, CompanySizeBand, CompanyTaxBreakdown, CompanyTaxRuleSet, CompanySize } from "../types";
+import { getCompanyTaxRuleSet } from "./taxRules";
+
+/**
+ * Size band for a company's gross turnover under a rule set.
+ */
+export const classifyCompany = (turnover: number, ruleSet: CompanyTaxRuleSet): CompanySizeBand =>
+  ruleSet.sizes.find(band => turnover <= band.turnoverLimit) ?? ruleSet.sizes[ruleSet.sizes.length - 1];
+
+/**
+ * Calculates Companies Income Tax and education tax from the profit-and-loss.
+ * Every taxable receipt of a company is turnover, so other income is added to both turnover and profit.
+ */
+export const calculateCompanyTax = (accounts: BusinessProfitLoss, assessmentYear: number): CompanyTaxBreakdown => {
+  const ruleSet = getCompanyTaxRuleSet(assessmentYear);
+  const turnover = accounts.turnover + accounts.otherIncome;
+  const band = classifyCompany(turnover, ruleSet);
+  const smallCompanyExempt = band.size === CompanySize.SMALL;
+
+  // 1. Profit before and after capital allowances
+  const adjustedProfit = Math.max(0, accounts.netProfit) + accounts.otherIncome;
+  const capitalAllowances = accounts.totalCapitalAllowances - accounts.unabsorbedAllowances;
+  const totalProfitAfterAllowances = accounts.totalIncome;
+
+  // 2. CIT at the size band's rate, or minimum tax on turnover where that is higher
+  const cit = totalProfitAfterAllowances * band.citRate;
+  const minimumTax = ruleSet.minimumTaxRate !== undefined && !smallCompanyExempt
+    ? turnover * ruleSet.minimumTaxRate
+    : undefined;
+  const minimumTaxApplied = minimumTax !== undefined && minimumTax > cit;
+  const companyIncomeTax = minimumTaxApplied ? minimumTax : cit;
+
+  // 3. Tertiary Education Tax / development levy on adjusted profit
+  const { label, rate, smallCompanyExempt: educationTaxExempt } = ruleSet.educationTax;
+  const educationTaxRate = smallCompanyExempt && educationTaxExempt ? 0 : rate;
+  const educationTax = adjustedProfit * educationTaxRate;
+
+  const totalTax = companyIncomeTax + educationTax;
+
+  return {
+    assessmentYear,
+    ruleSetName: ruleSet.name,
+    size: band.size,
+    turnover,
+    adjustedProfit,
+    capitalAllowances,
+    totalProfitAfterAllowances,
+    citRate: band.citRate,
+    cit,
+    minimumTax,
+    minimumTaxApplied,
+    companyIncomeTax,
+    educationTaxLabel: label,
+    educationTaxRate,
+    educationTax,
+    totalTax,
+    effectiveRate: adjustedProfit > 0 ? (totalTax / adjustedProfit) * 100 : 0,
+    smallCompanyExempt
+  };
+};
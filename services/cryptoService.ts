@@ -0,0 +1,84 @@
+import { EncryptedPayload } from "../types";
+
+// OWASP guidance for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 310000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  // Build the binary string in slices; spreading a large array into fromCharCode overflows the stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+interface DerivedKey {
+  salt: Uint8Array<ArrayBuffer>;
+  key: CryptoKey;
+}
+
+// One salt and key per open session, so autosaves skip the slow derivation; the passphrase itself is not kept
+const sessionKeys = new Map<string, Promise<DerivedKey>>();
+
+const getKey = (passphrase: string, sessionId?: string): Promise<DerivedKey> => {
+  const cached = sessionId ? sessionKeys.get(sessionId) : undefined;
+  if (cached) return cached;
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const entry = deriveKey(passphrase, salt).then(key => ({ salt, key }));
+  if (sessionId) {
+    sessionKeys.set(sessionId, entry);
+    entry.catch(() => sessionKeys.delete(sessionId));
+  }
+  return entry;
+};
+
+/**
+ * Forgets the cached key of one session, or of every session. Call it when a session is closed
+ * or its passphrase changes.
+ */
+export const clearSessionKeys = (sessionId?: string) => {
+  if (sessionId) sessionKeys.delete(sessionId);
+  else sessionKeys.clear();
+};
+
+/**
+ * Encrypts a JSON value with AES-GCM under a key derived from the passphrase.
+ * With a session id the derived key and its salt are reused until cleared; the IV is fresh on every call.
+ */
+export const encryptJson = async (value: unknown, passphrase: string, sessionId?: string): Promise<EncryptedPayload> => {
+  const { salt, key } = await getKey(passphrase, sessionId);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+
+  return { salt: toBase64(salt), iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+export const decryptJson = async <T>(payload: EncryptedPayload, passphrase: string, sessionId?: string): Promise<T> => {
+  try {
+    const salt = fromBase64(payload.salt);
+    const key = await deriveKey(passphrase, salt);
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.ciphertext));
+    const value = JSON.parse(new TextDecoder().decode(plaintext));
+    // The session is saved again under the key just derived, so its first autosave is as quick as the rest
+    if (sessionId) sessionKeys.set(sessionId, Promise.resolve({ salt, key }));
+    return value;
+  } catch {
+    // AES-GCM authentication fails identically for a wrong passphrase and for tampered data
+    throw new Error("Incorrect passphrase, or the saved session is damaged.");
+  }
+};
@@ -0,0 +1,16 @@
+// Some browsers start the download after click() returns, so the URL must outlive the current tick
+const REVOKE_DELAY_MS = 1000;
+
+/**
+ * Saves a blob to the user's downloads folder under `filename`, releasing its object URL afterwards.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,227 @@
+import { ExtractedStatement, ExtractionProgress, ExtractionProvider, ExtractionRequest, ModelProvider, PdfChunk, RedactionReport, Transaction } from "../types";
+import { getExtractionProvider } from "./providers";
+import { NonRetryableError, RateLimitError, cancelledError, isAbortError } from "./providers/errors";
+import { splitPdf } from "./pdfChunker";
+import { RedactedDocument, redactDocument, restoreStatement } from "./redactionService";
+
+const CHUNK_ATTEMPTS = 3;
+// Rate-limited calls wait 2s, 4s, 8s, 16s, 32s before giving up
+const RATE_LIMIT_ATTEMPTS = 6;
+const BACKOFF_BASE_MS = 2000;
+
+export interface ExtractionOptions {
+  onProgress?: (progress: ExtractionProgress) => void;
+  /** Mask personal details locally before upload */
+  redact?: boolean;
+  /** Asked before sending when redaction could not mask everything; returning false cancels the extraction */
+  confirmRedaction?: (report: RedactionReport) => boolean | Promise<boolean>;
+  signal?: AbortSignal;
+  /** Pass the same checkpoint again to resume after the last completed chunk */
+  checkpoint?: ExtractionCheckpoint;
+}
+
+/**
+ * Work kept between attempts at one file, so a failed or cancelled extraction is not paid for twice.
+ */
+export interface ExtractionCheckpoint {
+  redacted?: RedactedDocument;
+  chunks?: PdfChunk[];
+  results: ExtractedStatement[];
+}
+
+export const createCheckpoint = (): ExtractionCheckpoint => ({ results: [] });
+
+const rowKey = (t: Transaction) =>
+  [t.date, t.type, t.amount.toFixed(2), t.description.toUpperCase().replace(/[^A-Z0-9]/g, ''), t.balance ?? ''].join('|');
+
+const sameAmount = (a: Transaction, b: Transaction) => a.type === b.type && Math.abs(a.amount - b.amount) < 0.005;
+
+/**
+ * Appends the next chunk's rows, dropping the leading rows that repeat the previous chunk's tail.
+ * Chunks overlap by one page, so the repeated rows are found, in order of preference:
+ * 1. by page: rows of `next` on a page `merged` already covers
+ * 2. by content: the longest tail of `merged` equal to a head of `next`
+ * 3. by running balance: the head of `next` up to the row that repeats the last row of `merged`
+ * When none of these finds the overlap every row is kept and `matched` is false, so the merge can be flagged.
+ */
+const appendWithoutOverlap = (merged: Transaction[], next: Transaction[]): { transactions: Transaction[]; matched: boolean } => {
+  if (merged.length === 0 || next.length === 0) return { transactions: [...merged, ...next], matched: true };
+
+  // 1. Page numbers
+  if ([...merged, ...next].every(t => t.sourcePage !== undefined)) {
+    const lastPage = Math.max(...merged.map(t => t.sourcePage!));
+    return { transactions: [...merged, ...next.filter(t => t.sourcePage! > lastPage)], matched: true };
+  }
+
+  // 2. Identical rows
+  const mergedKeys = merged.map(rowKey);
+  const nextKeys = next.map(rowKey);
+  for (let overlap = Math.min(mergedKeys.length, nextKeys.length); overlap > 0; overlap--) {
+    const tail = mergedKeys.slice(mergedKeys.length - overlap);
+    if (tail.every((key, i) => key === nextKeys[i])) {
+      return { transactions: [...merged, ...next.slice(overlap)], matched: true };
+    }
+  }
+
+  // 3. Running balance, which survives a description read slightly differently
+  const last = merged[merged.length - 1];
+  if (last.balance !== undefined) {
+    const repeat = next.findIndex(t => t.balance !== undefined && Math.abs(t.balance - last.balance!) < 0.005 && sameAmount(t, last));
+    if (repeat !== -1) return { transactions: [...merged, ...next.slice(repeat + 1)], matched: true };
+  }
+
+  return { transactions: [...merged, ...next], matched: false };
+};
+
+export const mergeChunkResults = (results: ExtractedStatement[]): ExtractedStatement => {
+  if (results.length === 0) return { transactions: [] };
+
+  let transactions: Transaction[] = [];
+  let unmatchedOverlaps = 0;
+  results.forEach(r => {
+    const appended = appendWithoutOverlap(transactions, r.transactions);
+    transactions = appended.transactions;
+    if (!appended.matched) unmatchedOverlaps++;
+  });
+
+  return {
+    transactions,
+    openingBalance: results[0].openingBalance,
+    closingBalance: results[results.length - 1].closingBalance,
+    accountNumber: results.find(r => r.accountNumber)?.accountNumber,
+    bankName: results.find(r => r.bankName)?.bankName,
+    truncated: results.some(r => r.truncated),
+    rejectedRows: results.reduce((sum, r) => sum + (r.rejectedRows ?? 0), 0) || undefined,
+    unmatchedOverlaps: unmatchedOverlaps || undefined,
+    sampleData: results.some(r => r.sampleData) || undefined
+  };
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Calls the provider, retrying failures a few times and rate limits with exponential backoff.
+ * Cancellation and non-retryable errors are never retried.
+ */
+const extractWithRetry = async (provider: ExtractionProvider, request: ExtractionRequest, label?: string): Promise<ExtractedStatement> => {
+  let failures = 0;
+  let rateLimits = 0;
+
+  while (true) {
+    request.signal?.throwIfAborted();
+    try {
+      return await provider.extract(request);
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      // Bad credentials or a rejected request fail the same way on every attempt and every chunk
+      if (error instanceof NonRetryableError) throw label ? new NonRetryableError(`${label}: ${error.message}`) : error;
+
+      if (error instanceof RateLimitError) {
+        if (++rateLimits >= RATE_LIMIT_ATTEMPTS) throw label ? new Error(`${label}: ${error.message}`) : error;
+        const delay = BACKOFF_BASE_MS * 2 ** (rateLimits - 1);
+        console.warn(`${label ?? 'Extraction'} rate limited. Retrying in ${delay / 1000}s.`);
+        await wait(delay, request.signal);
+        continue;
+      }
+
+      if (++failures >= CHUNK_ATTEMPTS) {
+        throw label ? new Error(`${label}: ${error?.message || 'Extraction failed.'}`) : error;
+      }
+      console.warn(`${label ?? 'Extraction'} failed (attempt ${failures} of ${CHUNK_ATTEMPTS}).`, error);
+    }
+  }
+};
+
+// Chunk pages are numbered from 1 within the chunk; shift them to the page of the whole statement
+const offsetPages = (result: ExtractedStatement, offset: number): ExtractedStatement => ({
+  ...result,
+  transactions: result.transactions.map(t => t.sourcePage === undefined ? t : { ...t, sourcePage: t.sourcePage + offset })
+});
+
+/**
+ * Splits PDFs into page-range chunks that are extracted one at a time, reporting progress before every chunk.
+ * Completed chunks are recorded on the checkpoint, and chunks already there are skipped.
+ * Images and short PDFs go through in a single call.
+ */
+const extractDocument = async (
+  base64Data: string,
+  mimeType: string,
+  provider: ExtractionProvider,
+  checkpoint: ExtractionCheckpoint,
+  { onProgress, signal }: ExtractionOptions
+): Promise<ExtractedStatement> => {
+  if (mimeType !== 'application/pdf') {
+    const result = await extractWithRetry(provider, { base64Data, mimeType, signal });
+    return { ...result, transactions: result.transactions.map(t => ({ ...t, sourcePage: 1 })) };
+  }
+
+  if (!checkpoint.chunks) {
+    try {
+      checkpoint.chunks = await splitPdf(base64Data);
+    } catch (error) {
+      // Damaged or unusual PDFs that pdf-lib cannot open are still sent whole
+      console.warn("Could not split PDF locally. Sending the whole document.", error);
+      return extractWithRetry(provider, { base64Data, mimeType, signal });
+    }
+  }
+
+  const chunks = checkpoint.chunks;
+  const progressAt = (chunkIndex: number): ExtractionProgress => ({
+    startPage: chunks[chunkIndex].startPage,
+    endPage: chunks[chunkIndex].endPage,
+    totalPages: chunks[0].totalPages,
+    completedPages: checkpoint.results.length > 0 ? chunks[checkpoint.results.length - 1].endPage : 0,
+    chunkIndex,
+    chunkCount: chunks.length
+  });
+
+  for (let chunkIndex = checkpoint.results.length; chunkIndex < chunks.length; chunkIndex++) {
+    const chunk = chunks[chunkIndex];
+    onProgress?.(progressAt(chunkIndex));
+    const result = await extractWithRetry(
+      provider,
+      { base64Data: chunk.base64, mimeType, pageRange: chunk, signal },
+      `Pages ${chunk.startPage}-${chunk.endPage}`
+    );
+    checkpoint.results.push(offsetPages(result, chunk.startPage - 1));
+  }
+
+  onProgress?.(progressAt(chunks.length - 1));
+  return mergeChunkResults(checkpoint.results);
+};
+
+/**
+ * Extracts a statement from a PDF or image.
+ * With `redact`, personal details are masked locally first and tokens restored in the result.
+ */
+export const extractStatement = async (
+  base64Data: string,
+  mimeType: string,
+  providerId: ModelProvider,
+  options: ExtractionOptions = {}
+): Promise<ExtractedStatement> => {
+  const provider = getExtractionProvider(providerId);
+  const checkpoint = options.checkpoint ?? createCheckpoint();
+
+  if (options.redact && !checkpoint.redacted) {
+    const redacted = await redactDocument(base64Data, mimeType);
+    if (redacted.report.warning && options.confirmRedaction && !(await options.confirmRedaction(redacted.report))) {
+      throw cancelledError();
+    }
+    checkpoint.redacted = redacted;
+  }
+  const { redacted } = checkpoint;
+
+  const statement = await extractDocument(redacted?.base64Data ?? base64Data, mimeType, provider, checkpoint, options);
+  return redacted ? { ...restoreStatement(statement, redacted.tokens), redaction: redacted.report } : statement;
+};
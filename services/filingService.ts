@@ -0,0 +1,83 @@
+import { EmploymentStatus, FilingDeadline, NigerianState, TaxAuthority, TaxMode, TaxpayerProfile } from "../types";
+
+const stateService = (state: string, abbreviation: string): TaxAuthority => ({
+  name: `${state} State Internal Revenue Service`,
+  abbreviation
+});
+
+/**
+ * PIT is collected by the State of residence; the FCT has its own service.
+ */
+export const STATE_TAX_AUTHORITIES: Record<NigerianState, TaxAuthority> = {
+  [NigerianState.ABIA]: stateService('Abia', 'ABIRS'),
+  [NigerianState.ADAMAWA]: stateService('Adamawa', 'ADIRS'),
+  [NigerianState.AKWA_IBOM]: stateService('Akwa Ibom', 'AKIRS'),
+  [NigerianState.ANAMBRA]: stateService('Anambra', 'AIRS'),
+  [NigerianState.BAUCHI]: stateService('Bauchi', 'BIRS'),
+  [NigerianState.BAYELSA]: stateService('Bayelsa', 'BYIRS'),
+  [NigerianState.BENUE]: stateService('Benue', 'BIRS'),
+  [NigerianState.BORNO]: stateService('Borno', 'BOIRS'),
+  [NigerianState.CROSS_RIVER]: stateService('Cross River', 'CRIRS'),
+  [NigerianState.DELTA]: stateService('Delta', 'DSIRS'),
+  [NigerianState.EBONYI]: stateService('Ebonyi', 'EBIRS'),
+  [NigerianState.EDO]: stateService('Edo', 'EIRS'),
+  [NigerianState.EKITI]: stateService('Ekiti', 'EKIRS'),
+  [NigerianState.ENUGU]: stateService('Enugu', 'ESIRS'),
+  [NigerianState.FCT]: { name: 'Federal Capital Territory Internal Revenue Service', abbreviation: 'FCT-IRS' },
+  [NigerianState.GOMBE]: stateService('Gombe', 'GIRS'),
+  [NigerianState.IMO]: stateService('Imo', 'IIRS'),
+  [NigerianState.JIGAWA]: stateService('Jigawa', 'JIRS'),
+  [NigerianState.KADUNA]: stateService('Kaduna', 'KADIRS'),
+  [NigerianState.KANO]: stateService('Kano', 'KIRS'),
+  [NigerianState.KATSINA]: stateService('Katsina', 'KTIRS'),
+  [NigerianState.KEBBI]: stateService('Kebbi', 'KBIRS'),
+  [NigerianState.KOGI]: stateService('Kogi', 'KGIRS'),
+  [NigerianState.KWARA]: stateService('Kwara', 'KWIRS'),
+  [NigerianState.LAGOS]: stateService('Lagos', 'LIRS'),
+  [NigerianState.NASARAWA]: stateService('Nasarawa', 'NIRS'),
+  [NigerianState.NIGER]: stateService('Niger', 'NGIRS'),
+  [NigerianState.OGUN]: stateService('Ogun', 'OGIRS'),
+  [NigerianState.ONDO]: stateService('Ondo', 'ODIRS'),
+  [NigerianState.OSUN]: stateService('Osun', 'OSIRS'),
+  [NigerianState.OYO]: stateService('Oyo', 'OYIRS'),
+  [NigerianState.PLATEAU]: stateService('Plateau', 'PSIRS'),
+  [NigerianState.RIVERS]: stateService('Rivers', 'RIRS'),
+  [NigerianState.SOKOTO]: stateService('Sokoto', 'SIRS'),
+  [NigerianState.TARABA]: stateService('Taraba', 'TRIRS'),
+  [NigerianState.YOBE]: stateService('Yobe', 'YBIRS'),
+  [NigerianState.ZAMFARA]: stateService('Zamfara', 'ZIRS')
+};
+
+// Companies Income Tax is federal; the Nigeria Revenue Service took over from FIRS in 2026
+const FIRS: TaxAuthority = { name: 'Federal Inland Revenue Service', abbreviation: 'FIRS' };
+const NRS: TaxAuthority = { name: 'Nigeria Revenue Service', abbreviation: 'NRS' };
+
+/**
+ * The authority a return is filed with. Undefined for an individual whose State is not known yet.
+ */
+export const getTaxAuthority = (profile: TaxpayerProfile | null | undefined, mode: TaxMode, assessmentYear: number): TaxAuthority | undefined => {
+  if (mode === TaxMode.COMPANY) return assessmentYear >= 2026 ? NRS : FIRS;
+  return profile?.state ? STATE_TAX_AUTHORITIES[profile.state] : undefined;
+};
+
+/**
+ * Annual return deadline for a year's income, assuming a 31 December year end.
+ * Individuals file by 31 March of the following year; companies within six months of the year end.
+ */
+export const getFilingDeadline = (profile: TaxpayerProfile | null | undefined, mode: TaxMode, assessmentYear: number): FilingDeadline => {
+  const authority = getTaxAuthority(profile, mode, assessmentYear);
+  const nextYear = assessmentYear + 1;
+
+  if (mode === TaxMode.COMPANY) {
+    return { date: `${nextYear}-06-30`, label: 'Company income tax return', authority };
+  }
+
+  const employed = profile?.employmentStatus === EmploymentStatus.EMPLOYED ||
+    profile?.employmentStatus === EmploymentStatus.EMPLOYED_WITH_BUSINESS;
+  return {
+    date: `${nextYear}-03-31`,
+    label: profile?.employmentStatus === EmploymentStatus.EMPLOYED ? 'Annual income tax return (employee)' : 'Annual self-assessment return',
+    authority,
+    note: employed ? `Employer's annual PAYE return (Form H1) is due 31 January ${nextYear}.` : undefined
+  };
+};
@@ -0,0 +1,127 @@
+import { LedgerHistory, SplitPart, Transaction, TransactionDraft } from "../types";
+
+const MAX_HISTORY = 100;
+// Saved sessions keep only the latest undo steps; each one is a full copy of the ledger
+const SAVED_HISTORY = 10;
+
+// Split parts must add back up to the original amount, to the kobo
+const TOLERANCE = 0.005;
+
+export const EMPTY_HISTORY: LedgerHistory = { past: [], future: [] };
+
+/**
+ * Returns an error message for an unusable draft, or null when it can be saved.
+ */
+export const validateTransactionDraft = (draft: TransactionDraft): string | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.date) || isNaN(Date.parse(draft.date))) return "Enter a valid date.";
+  if (!draft.description.trim()) return "Description is required.";
+  if (!Number.isFinite(draft.amount) || draft.amount <= 0) return "Amount must be greater than zero.";
+  return null;
+};
+
+/**
+ * Drops everything derived from the row's old content so rules and auto-detection re-evaluate it.
+ * A manual tag survives unless the direction changed, since income categories never fit a debit.
+ */
+const clearDerived = (t: Transaction, keepUserCategory: boolean): Transaction => {
+  const { category, categorySource, ruleId, taxable, transferPairId, ...rest } = t;
+  // A counterparty named by a rule goes with the rule; one recorded any other way is kept
+  const base = rest.counterpartySource === 'RULE' ? { ...rest, counterparty: undefined, counterpartySource: undefined } : rest;
+  return keepUserCategory && categorySource === 'USER' ? { ...base, category, categorySource } : base;
+};
+
+export const editTransaction = (transactions: Transaction[], target: Transaction, draft: TransactionDraft): Transaction[] =>
+  transactions.map(t => t === target
+    ? { ...clearDerived(t, draft.type === t.type), ...draft, description: draft.description.trim(), edited: true }
+    : t
+  );
+
+/**
+ * Inserts a hand-entered row after the last row of the same statement dated on or before it,
+ * so running balances can still be followed.
+ */
+export const addTransaction = (
+  transactions: Transaction[],
+  draft: TransactionDraft,
+  source?: Pick<Transaction, 'sourceFile' | 'sourceAccount'>
+): Transaction[] => {
+  const row: Transaction = { ...draft, description: draft.description.trim(), ...source, manual: true };
+
+  let firstOfStatement = -1;
+  let lastOnOrBefore = -1;
+  transactions.forEach((t, i) => {
+    if (source && t.sourceFile !== source.sourceFile) return;
+    if (firstOfStatement === -1) firstOfStatement = i;
+    if (t.date <= row.date) lastOnOrBefore = i;
+  });
+
+  const at = lastOnOrBefore !== -1 ? lastOnOrBefore + 1 : firstOfStatement !== -1 ? firstOfStatement : transactions.length;
+  return [...transactions.slice(0, at), row, ...transactions.slice(at)];
+};
+
+export const validateSplit = (target: Transaction, parts: SplitPart[]): string | null => {
+  if (parts.length < 2) return "Split into at least two parts.";
+  if (parts.some(p => !p.description.trim())) return "Every part needs a description.";
+  if (parts.some(p => !Number.isFinite(p.amount) || p.amount <= 0)) return "Every part needs an amount greater than zero.";
+  const total = parts.reduce((sum, p) => sum + p.amount, 0);
+  if (Math.abs(total - target.amount) > TOLERANCE) return "The parts must add up to the original amount.";
+  return null;
+};
+
+/**
+ * Replaces one row with several of the same date and direction, e.g. part salary, part reimbursement.
+ * The printed running balance moves to the last part, where it still holds.
+ * Tax tags (WHT, VAT, disposal, expense treatment) are cleared from every part.
+ */
+export const splitTransaction = (transactions: Transaction[], target: Transaction, parts: SplitPart[]): Transaction[] => {
+  const error = validateSplit(target, parts);
+  if (error) throw new Error(error);
+
+  // Tax tags describe the whole amount, so copying them onto each part would count the WHT credit, VAT,
+  // disposal proceeds or capital allowance once per part; they are left for the user to set on the right part
+  const {
+    balance, disposal, withholdingRate, withholdingSource, whtCreditNote, vat, expenseTreatment, assetClass, ...base
+  } = clearDerived(target, false);
+  const rows: Transaction[] = parts.map((p, i) => ({
+    ...base,
+    description: p.description.trim(),
+    amount: p.amount,
+    ...(i === parts.length - 1 && balance !== undefined ? { balance } : {}),
+    edited: true
+  }));
+
+  const at = transactions.indexOf(target);
+  return [...transactions.slice(0, at), ...rows, ...transactions.slice(at + 1)];
+};
+
+export const deleteTransaction = (transactions: Transaction[], target: Transaction): Transaction[] =>
+  transactions.filter(t => t !== target);
+
+export const recordEdit = (history: LedgerHistory, current: Transaction[]): LedgerHistory => ({
+  past: [...history.past, current].slice(-MAX_HISTORY),
+  future: []
+});
+
+/**
+ * The part of the history written with a saved session: the last few undo steps and no redo.
+ */
+export const historyToSave = (history: LedgerHistory): LedgerHistory => ({
+  past: history.past.slice(-SAVED_HISTORY),
+  future: []
+});
+
+export const undoEdit = (history: LedgerHistory, current: Transaction[]): { history: LedgerHistory; transactions: Transaction[] } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    transactions: history.past[history.past.length - 1]
+  };
+};
+
+export const redoEdit = (history: LedgerHistory, current: Transaction[]): { history: LedgerHistory; transactions: Transaction[] } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    transactions: history.future[0]
+  };
+};
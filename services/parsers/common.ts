@@ -0,0 +1,83 @@
+const MONTHS: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12
+};
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Normalises the date formats found in Nigerian bank exports to "YYYY-MM-DD".
+ * Numeric dates are read day-first (DD/MM/YYYY), as Nigerian banks print them.
+ */
+export const normalizeDate = (raw: string): string | null => {
+  const value = raw.trim().replace(/^"|"$/g, '');
+  if (!value) return null;
+
+  // 2024-01-05, 2024/01/05, 2024-01-05T10:22:00
+  let m = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (m) return toIsoDate(+m[1], +m[2], +m[3]);
+
+  // 05/01/2024, 05-01-24
+  m = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})/);
+  if (m) return toIsoDate(+m[3], +m[2], +m[1]);
+
+  // 05-Jan-2024, 05 Jan 2024, 5-JAN-24
+  m = value.match(/^(\d{1,2})[-\s/]([A-Za-z]{3})[A-Za-z]*[-\s/,]+(\d{2,4})/);
+  if (m && MONTHS[m[2].toUpperCase()]) return toIsoDate(+m[3], MONTHS[m[2].toUpperCase()], +m[1]);
+
+  // Jan 05, 2024
+  m = value.match(/^([A-Za-z]{3})[A-Za-z]*\s+(\d{1,2}),?\s+(\d{4})/);
+  if (m && MONTHS[m[1].toUpperCase()]) return toIsoDate(+m[3], MONTHS[m[1].toUpperCase()], +m[2]);
+
+  // 20240105 (OFX / compact)
+  m = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (m) return toIsoDate(+m[1], +m[2], +m[3]);
+
+  // Excel serial number left in a CSV export
+  if (/^\d{5}(\.\d+)?$/.test(value)) {
+    const date = new Date(EXCEL_EPOCH_UTC + Math.floor(parseFloat(value)) * 86400000);
+    return toIsoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  return null;
+};
+
+/**
+ * Parses amounts such as "1,234.56", "₦1,234.56", "(500.00)", "-500" or "1.234,56".
+ * Returns a signed number, or null when the cell is empty or not numeric.
+ */
+export const parseAmount = (raw: string | undefined): number | null => {
+  if (raw === undefined) return null;
+  let value = raw.trim().replace(/^"|"$/g, '').replace(/[₦]|NGN|\s/gi, '');
+  if (!value || value === '-') return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (/(CR|DR)$/i.test(value)) {
+    negative = /DR$/i.test(value);
+    value = value.slice(0, -2);
+  }
+
+  // Decimal comma (e.g. MT940 or European Excel): "1.234,56" or "1234,56"
+  if (/^-?[\d.]*,\d{1,2}$/.test(value)) {
+    value = value.replace(/\./g, '').replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(value);
+  if (isNaN(amount)) return null;
+  return negative ? -Math.abs(amount) : amount;
+};
@@ -0,0 +1,221 @@
+import { Transaction, TransactionType, ExtractedStatement } from "../../types";
+import { normalizeDate, parseAmount } from "./common";
+
+export interface CsvLayout {
+  bank: string;
+  date: string[];
+  description: string[];
+  debit?: string[];
+  credit?: string[];
+  amount?: string[];
+  balance?: string[];
+}
+
+/**
+ * Column headers used by the major Nigerian banks' statement exports.
+ * Header names are matched case-insensitively after stripping punctuation.
+ */
+export const CSV_LAYOUTS: CsvLayout[] = [
+  {
+    bank: 'GTBank',
+    date: ['trans date'],
+    description: ['remarks', 'narration'],
+    debit: ['debits'],
+    credit: ['credits'],
+    balance: ['balance']
+  },
+  {
+    bank: 'Access Bank',
+    date: ['posted date', 'post date'],
+    description: ['description', 'narration'],
+    debit: ['debit'],
+    credit: ['credit'],
+    balance: ['balance']
+  },
+  {
+    bank: 'Zenith Bank',
+    date: ['date posted'],
+    description: ['description'],
+    debit: ['debit'],
+    credit: ['credit'],
+    balance: ['balance']
+  },
+  {
+    bank: 'First Bank',
+    date: ['transdate', 'trans date', 'transaction date'],
+    description: ['narration', 'details'],
+    debit: ['debit', 'withdrawals'],
+    credit: ['credit', 'lodgements', 'deposits'],
+    balance: ['balance']
+  },
+  {
+    bank: 'UBA',
+    date: ['tran date'],
+    description: ['narration'],
+    debit: ['debit', 'withdrawal'],
+    credit: ['credit', 'deposit'],
+    balance: ['balance']
+  },
+  {
+    bank: 'Kuda',
+    date: ['datetime', 'date time', 'date'],
+    description: ['description', 'to from'],
+    debit: ['money out'],
+    credit: ['money in'],
+    balance: ['balance']
+  },
+  {
+    // Fallback for exports that follow none of the layouts above
+    bank: 'Generic',
+    date: ['date', 'transaction date', 'value date', 'txn date'],
+    description: ['description', 'narration', 'details', 'remarks', 'memo', 'particulars'],
+    debit: ['debit', 'debits', 'withdrawal', 'withdrawals', 'dr', 'money out'],
+    credit: ['credit', 'credits', 'deposit', 'deposits', 'lodgement', 'cr', 'money in'],
+    amount: ['amount', 'transaction amount'],
+    balance: ['balance', 'running balance', 'closing balance']
+  }
+];
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/^\uFEFF/, '').replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Splits CSV text into rows, honouring quoted fields that contain delimiters or newlines.
+ */
+export const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Excel uses ";" in locales with a decimal comma, and "Save as Text" produces tabs
+const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).slice(0, 20).join('\n');
+  const counts = [',', ';', '\t'].map(d => ({ d, n: sample.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+const findColumn = (headers: string[], aliases: string[] | undefined): number => {
+  if (!aliases) return -1;
+  for (const alias of aliases) {
+    const index = headers.indexOf(alias);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+interface ResolvedLayout {
+  layout: CsvLayout;
+  headerRow: number;
+  date: number;
+  description: number;
+  debit: number;
+  credit: number;
+  amount: number;
+  balance: number;
+}
+
+const resolveLayout = (rows: string[][]): ResolvedLayout | null => {
+  // Bank exports often start with a preamble (account name, period); scan for the header row
+  for (let headerRow = 0; headerRow < Math.min(rows.length, 30); headerRow++) {
+    const headers = rows[headerRow].map(normalizeHeader);
+    for (const layout of CSV_LAYOUTS) {
+      const resolved = {
+        layout,
+        headerRow,
+        date: findColumn(headers, layout.date),
+        description: findColumn(headers, layout.description),
+        debit: findColumn(headers, layout.debit),
+        credit: findColumn(headers, layout.credit),
+        amount: findColumn(headers, layout.amount),
+        balance: findColumn(headers, layout.balance)
+      };
+      const hasAmounts = (resolved.debit !== -1 && resolved.credit !== -1) || resolved.amount !== -1;
+      if (resolved.date !== -1 && resolved.description !== -1 && hasAmounts) return resolved;
+    }
+  }
+  return null;
+};
+
+/**
+ * Parses a CSV (or Excel-exported CSV) bank statement into transactions.
+ * Rows without a readable date or amount (e.g. totals, opening balance lines) are skipped.
+ */
+export const parseCsvStatement = (text: string): ExtractedStatement & { bank: string } => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''), detectDelimiter(text));
+  const resolved = resolveLayout(rows);
+  if (!resolved) {
+    throw new Error("Unrecognised CSV layout. The file needs Date, Description and Debit/Credit (or Amount) columns.");
+  }
+
+  // Account number is usually printed in the preamble above the header row
+  const preamble = rows.slice(0, resolved.headerRow).map(r => r.join(' ')).join('\n');
+  const accountMatch = preamble.match(/account\s*(?:no|number|#)?\.?\s*:?\s*(\d{10})/i);
+
+  const transactions: Transaction[] = [];
+  for (const row of rows.slice(resolved.headerRow + 1)) {
+    const date = normalizeDate(row[resolved.date] ?? '');
+    if (!date) continue;
+
+    let signed: number | null;
+    if (resolved.debit !== -1 && resolved.credit !== -1) {
+      const debit = parseAmount(row[resolved.debit]);
+      const credit = parseAmount(row[resolved.credit]);
+      if (!debit && !credit) continue;
+      signed = (credit ? Math.abs(credit) : 0) - (debit ? Math.abs(debit) : 0);
+    } else {
+      signed = parseAmount(row[resolved.amount]);
+    }
+    if (!signed) continue;
+
+    const balance = resolved.balance !== -1 ? parseAmount(row[resolved.balance]) : null;
+    transactions.push({
+      date,
+      description: (row[resolved.description] ?? '').replace(/\s+/g, ' ').trim(),
+      amount: Math.abs(signed),
+      type: signed > 0 ? TransactionType.CREDIT : TransactionType.DEBIT,
+      ...(balance !== null ? { balance } : {})
+    });
+  }
+
+  return {
+    bank: resolved.layout.bank,
+    bankName: resolved.layout.bank !== 'Generic' ? resolved.layout.bank : undefined,
+    accountNumber: accountMatch?.[1],
+    transactions
+  };
+};
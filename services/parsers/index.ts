@@ -0,0 +1,57 @@
+import { ExtractedStatement } from "../../types";
+import { parseCsvStatement } from "./csvParser";
+import { parseOfxStatement } from "./ofxParser";
+import { parseMt940Statement } from "./mt940Parser";
+
+export type StatementFormat = 'CSV' | 'OFX' | 'MT940';
+
+export const STRUCTURED_EXTENSIONS = ['.csv', '.txt', '.ofx', '.qfx', '.sta', '.mt940', '.940'];
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+/**
+ * True for machine-readable exports that can be parsed locally without an AI call.
+ */
+export const isStructuredStatement = (fileName: string, mimeType: string): boolean =>
+  STRUCTURED_EXTENSIONS.includes(extensionOf(fileName)) || mimeType === 'text/csv';
+
+/**
+ * Identifies the format from the content first, falling back to the file extension.
+ */
+export const detectStatementFormat = (content: string, fileName: string): StatementFormat => {
+  if (/OFXHEADER|<OFX>/i.test(content)) return 'OFX';
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'MT940';
+
+  const extension = extensionOf(fileName);
+  if (extension === '.ofx' || extension === '.qfx') return 'OFX';
+  if (extension === '.sta' || extension === '.mt940' || extension === '.940') return 'MT940';
+  return 'CSV';
+};
+
+/**
+ * Deterministically parses a CSV, OFX/QFX or MT940 statement into transactions.
+ * Throws an Error with a user-facing message when the file cannot be read.
+ */
+export const parseStatementFile = (content: string, fileName: string): ExtractedStatement & { format: StatementFormat } => {
+  const format = detectStatementFormat(content, fileName);
+  const statement: ExtractedStatement = format === 'OFX'
+    ? parseOfxStatement(content)
+    : format === 'MT940'
+      ? parseMt940Statement(content)
+      : parseCsvStatement(content);
+
+  if (statement.transactions.length === 0) {
+    throw new Error(`No transactions found in this ${format} file.`);
+  }
+  return {
+    format,
+    transactions: statement.transactions,
+    openingBalance: statement.openingBalance,
+    closingBalance: statement.closingBalance,
+    accountNumber: statement.accountNumber,
+    bankName: statement.bankName
+  };
+};
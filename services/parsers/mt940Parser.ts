@@ -0,0 +1,94 @@
+import { Transaction, TransactionType, ExtractedStatement } from "../../types";
+import { parseAmount } from "./common";
+
+// :61: value date (YYMMDD), optional entry date (MMDD), mark (C, D, RC, RD), optional funds code, amount
+const STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])([A-Z])?([\d,]+)(.*)$/;
+
+interface Field {
+  tag: string;
+  value: string;
+}
+
+// Fields start with ":tag:" on a new line; anything else continues the previous field
+const readFields = (text: string): Field[] => {
+  const fields: Field[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.trim() && !/^-\}?$/.test(line.trim())) {
+      fields[fields.length - 1].value += '\n' + line;
+    }
+  }
+  return fields;
+};
+
+// :60F: / :62F: balances, e.g. "C240101NGN1000,00"
+const parseBalance = (value: string | undefined): number | undefined => {
+  const match = value?.match(/^([CD])\d{6}[A-Z]{3}([\d,]+)/);
+  if (!match) return undefined;
+  const amount = parseAmount(match[2]) ?? 0;
+  return match[1] === 'D' ? -amount : amount;
+};
+
+const cleanNarrative = (value: string) =>
+  value
+    .replace(/\n/g, ' ')
+    // Structured :86: subfields (?20, ?21 ...) carry the narrative in pieces
+    .replace(/\?\d{2}/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Parses a SWIFT MT940 customer statement into transactions.
+ * Each :61: statement line takes its description from the :86: field that follows it.
+ */
+export const parseMt940Statement = (text: string): ExtractedStatement => {
+  const fields = readFields(text);
+  if (!fields.some(f => f.tag === '61')) {
+    throw new Error("Not an MT940 statement: no :61: statement lines found.");
+  }
+
+  const transactions: Transaction[] = [];
+
+  fields.forEach((field, index) => {
+    if (field.tag !== '61') return;
+
+    const [firstLine, ...rest] = field.value.split('\n');
+    const match = firstLine.match(STATEMENT_LINE);
+    if (!match) return;
+
+    const [, yy, mm, dd, , mark, , rawAmount, reference] = match;
+    const amount = parseAmount(rawAmount);
+    if (!amount) return;
+
+    // RC (reversal of credit) leaves the account; RD (reversal of debit) comes back in
+    const isCredit = mark === 'C' || mark === 'RD';
+
+    const next = fields[index + 1];
+    const narrative = next && next.tag === '86'
+      ? cleanNarrative(next.value)
+      : cleanNarrative([reference.replace(/^[A-Z]\w{3}/, ''), ...rest].join(' '));
+
+    transactions.push({
+      date: `20${yy}-${mm}-${dd}`,
+      description: narrative || 'Transaction',
+      amount: Math.abs(amount),
+      type: isCredit ? TransactionType.CREDIT : TransactionType.DEBIT
+    });
+  });
+
+  // Multi-page statements repeat :60M:/:62M: between pages; take the outermost balances
+  const opening = fields.find(f => f.tag.startsWith('60'));
+  const closing = [...fields].reverse().find(f => f.tag.startsWith('62'));
+
+  // :25: holds the account identification, optionally prefixed by a bank code ("GTBINGLA/0123456789")
+  const account = fields.find(f => f.tag === '25')?.value.split('/').pop()?.trim();
+
+  return {
+    transactions,
+    accountNumber: account || undefined,
+    openingBalance: parseBalance(opening?.value),
+    closingBalance: parseBalance(closing?.value)
+  };
+};
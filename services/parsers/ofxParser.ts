@@ -0,0 +1,54 @@
+import { Transaction, TransactionType, ExtractedStatement } from "../../types";
+import { normalizeDate, parseAmount } from "./common";
+
+// OFX 1.x is SGML and leaves leaf tags unclosed, so read up to the next tag or line break
+const readTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+/**
+ * Parses an OFX or QFX (Quicken) statement into transactions.
+ * Handles both SGML (OFX 1.x) and XML (OFX 2.x) files.
+ */
+export const parseOfxStatement = (text: string): ExtractedStatement => {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error("Not an OFX file: the <OFX> element is missing.");
+  }
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(b => b.split(/<\/STMTTRN>/i)[0]);
+  const transactions: Transaction[] = [];
+
+  for (const block of blocks) {
+    const date = normalizeDate(readTag(block, 'DTPOSTED') ?? '');
+    const signed = parseAmount(readTag(block, 'TRNAMT'));
+    if (!date || !signed) continue;
+
+    const name = readTag(block, 'NAME');
+    const memo = readTag(block, 'MEMO');
+    const description = [name, memo && memo !== name ? memo : undefined]
+      .filter(Boolean)
+      .join(' - ') || readTag(block, 'TRNTYPE') || 'Transaction';
+
+    transactions.push({
+      date,
+      description: decodeEntities(description),
+      amount: Math.abs(signed),
+      type: signed > 0 ? TransactionType.CREDIT : TransactionType.DEBIT
+    });
+  }
+
+  // OFX only carries the ledger balance at the end of the period
+  const ledger = text.split(/<LEDGERBAL>/i)[1];
+  const closingBalance = ledger ? parseAmount(readTag(ledger, 'BALAMT')) : null;
+
+  return {
+    transactions,
+    closingBalance: closingBalance ?? undefined,
+    accountNumber: readTag(text, 'ACCTID'),
+    bankName: readTag(text, 'ORG')
+  };
+};
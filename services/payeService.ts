@@ -0,0 +1,92 @@
+import { IncomeCategory, PayeMonth, PayeSummary, PayslipEntry, StatutoryDeductions, Transaction, TransactionType } from "../types";
+import { classifyTransaction, isTaxableIncome } from "./classificationService";
+import { calculateNigerianPIT, detectStatutoryDeductions } from "./taxService";
+
+const MONTHS_PER_YEAR = 12;
+
+const isSalaryCredit = (t: Transaction) =>
+  t.type === TransactionType.CREDIT &&
+  (t.category ?? classifyTransaction(t)) === IncomeCategory.SALARY &&
+  isTaxableIncome(t);
+
+const scaleDeductions = (deductions: StatutoryDeductions, factor: number): StatutoryDeductions => ({
+  pension: deductions.pension * factor,
+  nhf: deductions.nhf * factor,
+  nhis: deductions.nhis * factor,
+  lifeAssurance: deductions.lifeAssurance * factor,
+  voluntaryPension: (deductions.voluntaryPension ?? 0) * factor
+});
+
+/**
+ * PAYE an employer should withhold for one month under the annualised method:
+ * the month's pay and deductions are annualised, taxed on the full-year scale, and one twelfth is due.
+ */
+export const computeMonthlyPaye = (grossPay: number, deductions: StatutoryDeductions, assessmentYear: number): number => {
+  if (grossPay <= 0) return 0;
+  const annual = calculateNigerianPIT(grossPay * MONTHS_PER_YEAR, {
+    assessmentYear,
+    deductions: scaleDeductions(deductions, MONTHS_PER_YEAR)
+  });
+  return annual.totalTax / MONTHS_PER_YEAR;
+};
+
+/**
+ * Builds the month-by-month PAYE review for an assessment year.
+ * Months come from salary credits on the statement and from any payslip entries; payslip figures
+ * take precedence, otherwise the salary credited stands in for gross pay.
+ */
+export const computePayeSchedule = (
+  transactions: Transaction[],
+  assessmentYear: number,
+  payslips: PayslipEntry[] = []
+): PayeSummary => {
+  const inYear = transactions.filter(t => t.date.startsWith(`${assessmentYear}-`));
+
+  // 1. Salary credited per month
+  const credited = new Map<string, number>();
+  for (const t of inYear.filter(isSalaryCredit)) {
+    const month = t.date.slice(0, 7);
+    credited.set(month, (credited.get(month) ?? 0) + t.amount);
+  }
+
+  const payslipByMonth = new Map(
+    payslips.filter(p => p.month.startsWith(`${assessmentYear}-`)).map(p => [p.month, p])
+  );
+  const monthKeys = [...new Set([...credited.keys(), ...payslipByMonth.keys()])].sort();
+
+  // 2. Expected PAYE per month, compared with the payslip where one was entered
+  const months: PayeMonth[] = monthKeys.map(month => {
+    const payslip = payslipByMonth.get(month);
+    const salaryCredited = credited.get(month) ?? 0;
+    const grossPay = payslip?.grossPay ?? salaryCredited;
+
+    const detected = detectStatutoryDeductions(inYear.filter(t => t.date.startsWith(month)));
+    const deductions = payslip?.pension !== undefined ? { ...detected, pension: payslip.pension } : detected;
+
+    const expectedPaye = computeMonthlyPaye(grossPay, deductions, assessmentYear);
+    const payeDeducted = payslip?.payeDeducted;
+
+    return {
+      month,
+      salaryCredited,
+      grossPay,
+      grossSource: payslip?.grossPay !== undefined ? 'PAYSLIP' : 'BANK',
+      expectedPaye,
+      payeDeducted,
+      variance: payeDeducted !== undefined ? payeDeducted - expectedPaye : undefined
+    };
+  });
+
+  // 3. Year position over the months that can be compared
+  const compared = months.filter(m => m.variance !== undefined);
+
+  return {
+    assessmentYear,
+    months,
+    totalGross: months.reduce((sum, m) => sum + m.grossPay, 0),
+    totalExpected: months.reduce((sum, m) => sum + m.expectedPaye, 0),
+    totalDeducted: compared.reduce((sum, m) => sum + m.payeDeducted!, 0),
+    comparedMonths: compared.length,
+    position: compared.reduce((sum, m) => sum + m.variance!, 0)
+  };
+};
@@ -0,0 +1,48 @@
+import { PDFDocument } from "pdf-lib";
+import { PdfChunk } from "../types";
+
+// Stay well under the 20MB inline-data limit once the chunk is base64-encoded
+const MAX_CHUNK_BYTES = 12 * 1024 * 1024;
+const DEFAULT_PAGES_PER_CHUNK = 20;
+
+/**
+ * Splits a PDF into page ranges small enough for a single model call.
+ * Consecutive chunks share one page so a row printed across a page break is never lost;
+ * the duplicates this creates are removed when the chunks are merged.
+ */
+export const splitPdf = async (base64Data: string, pagesPerChunk = DEFAULT_PAGES_PER_CHUNK): Promise<PdfChunk[]> => {
+  const cleanBase64 = base64Data.split(',')[1] || base64Data;
+  const source = await PDFDocument.load(cleanBase64, { ignoreEncryption: true });
+  const totalPages = source.getPageCount();
+
+  // Scale chunk size down for image-heavy scans
+  const bytesPerPage = (cleanBase64.length * 0.75) / Math.max(1, totalPages);
+  const chunkSize = Math.max(2, Math.min(pagesPerChunk, Math.floor(MAX_CHUNK_BYTES / bytesPerPage)));
+
+  if (totalPages <= chunkSize) {
+    return [{ base64: cleanBase64, startPage: 1, endPage: totalPages, totalPages }];
+  }
+
+  const chunks: PdfChunk[] = [];
+  let start = 0;
+  while (start < totalPages) {
+    const end = Math.min(totalPages, start + chunkSize);
+    const chunkDoc = await PDFDocument.create();
+    const pageIndexes = Array.from({ length: end - start }, (_, i) => start + i);
+    const pages = await chunkDoc.copyPages(source, pageIndexes);
+    pages.forEach(page => chunkDoc.addPage(page));
+
+    chunks.push({
+      base64: await chunkDoc.saveAsBase64(),
+      startPage: start + 1,
+      endPage: end,
+      totalPages
+    });
+
+    if (end === totalPages) break;
+    // Overlap by one page
+    start = end - 1;
+  }
+
+  return chunks;
+};
@@ -0,0 +1,33 @@
+import { GlobalWorkerOptions, getDocument } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+// pdf.js parses on a worker; it is bundled with the app so statement pages never reach a third-party host
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+// Twice the page's point size keeps printed text legible when the viewer is wider than the page
+const RENDER_SCALE = 2;
+
+/**
+ * Renders one page (counting from 1) to a PNG data URL.
+ * The image covers exactly the page, so positions given as fractions of the page height line up with it.
+ */
+export const renderPdfPage = async (base64Data: string, pageNumber: number): Promise<string> => {
+  const binary = atob(base64Data.split(',')[1] || base64Data);
+  const data = Uint8Array.from(binary, c => c.charCodeAt(0));
+  const pdf = await getDocument({ data }).promise;
+
+  try {
+    const page = await pdf.getPage(Math.min(Math.max(pageNumber, 1), pdf.numPages));
+    const viewport = page.getViewport({ scale: RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas rendering is not available.');
+
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas.toDataURL('image/png');
+  } finally {
+    await pdf.destroy();
+  }
+};
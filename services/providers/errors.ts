@@ -0,0 +1,17 @@
+/**
+ * Thrown by a provider when the engine asks us to slow down (HTTP 429 or an exhausted quota).
+ * The extraction service retries these with exponential backoff rather than failing the chunk.
+ */
+export class RateLimitError extends Error {}
+
+/**
+ * Thrown by a provider for failures that retrying cannot fix: missing or rejected credentials,
+ * an unknown model, or a request the engine refuses (HTTP 4xx other than 429).
+ * The extraction service fails the chunk at once instead of retrying it.
+ */
+export class NonRetryableError extends Error {}
+
+export const cancelledError = () => new DOMException('Extraction cancelled.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
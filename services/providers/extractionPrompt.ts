@@ -0,0 +1,148 @@
+import { ExtractedStatement, PageRange, Transaction, TransactionType } from "../../types";
+
+const describeScope = (pageRange?: PageRange): string => {
+  if (pageRange) {
+    return `SCOPE: This file holds pages ${pageRange.startPage} to ${pageRange.endPage} of a ${pageRange.totalPages}-page statement.
+            Extract every transaction on every page of this file. Do NOT summarize.
+            Report openingBalance only if the first page starts the statement period, and closingBalance only if the last page ends it.`;
+  }
+  return `CRITICAL INSTRUCTION: You must extract transactions from PAGE 1 all the way to the LAST PAGE.
+            Do NOT stop after the first page. Do NOT summarize.`;
+};
+
+/**
+ * The extraction instructions shared by every model-backed provider.
+ */
+export const buildExtractionPrompt = (pageRange?: PageRange): string =>
+  `You are a Federal Auditor extraction engine. Analyze this bank statement.
+
+            ${describeScope(pageRange)}
+
+            TASK: Extract the statement balances and all financial transactions into a single JSON object.
+
+            STATEMENT FIELDS:
+            - accountNumber: String (Account number the statement is for, if printed)
+            - bankName: String (Short name of the bank, e.g. "GTBank", "Zenith Bank")
+            - openingBalance: Number (Opening / brought-forward balance of the period, if printed)
+            - closingBalance: Number (Closing / carried-forward balance of the period, if printed)
+            - transactions: Array, in the order printed on the statement
+
+            TRANSACTION FIELDS:
+            - date: "YYYY-MM-DD" (Use the date of the transaction)
+            - description: String (Clean up codes, remove timestamps if mixed in. Copy placeholders such as [ACCT-1] exactly as printed)
+            - amount: Number (Positive value, no currency symbols)
+            - type: "CREDIT" (Inflow/Deposit) or "DEBIT" (Outflow/Withdrawal)
+            - balance: Number (Running balance printed on the row, if any. Negative if overdrawn)
+            - page: Number (Page of this file the row is printed on; the first page of this file is 1)
+            - rawText: String (The row exactly as printed, on one line, before any clean-up)
+            - top, bottom: Number (Vertical position of the row on its page as fractions of the page height; 0 is the top edge, 1 the bottom)
+            - confidence: Number (0 to 1: how sure you are that every field of this row was read correctly)
+
+            If the document is unclear or contains no transactions, return {"transactions": []}.`;
+
+const fraction = (value: unknown): number | undefined =>
+  typeof value === 'number' && value >= 0 && value <= 1 ? value : undefined;
+
+/**
+ * Reads a number the model may have returned as a printed string, e.g. "₦1,250.00" or "(300.00)".
+ */
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const digits = value.replace(/[^0-9.-]/g, '');
+  if (!/\d/.test(digits)) return undefined;
+  const parsed = Number(digits);
+  if (!Number.isFinite(parsed)) return undefined;
+  return /^\s*\(.*\)\s*$/.test(value) ? -Math.abs(parsed) : parsed;
+};
+
+const toType = (value: unknown): TransactionType | undefined => {
+  const type = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (type === 'CREDIT' || type === 'CR') return TransactionType.CREDIT;
+  if (type === 'DEBIT' || type === 'DR') return TransactionType.DEBIT;
+  return undefined;
+};
+
+const toDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const date = value.trim();
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(Date.parse(date)) && new Date(date).toISOString().startsWith(date)
+    ? date
+    : undefined;
+};
+
+/**
+ * Copies the fields the prompt asks for onto a new row, moving provenance onto the row's own names.
+ * Returns null when the date, type or amount cannot be read, so the row is dropped rather than guessed.
+ */
+const toTransaction = (value: unknown): Transaction | null => {
+  if (!value || typeof value !== 'object') return null;
+  const row = value as Record<string, unknown>;
+
+  const date = toDate(row.date);
+  const type = toType(row.type);
+  const amount = toNumber(row.amount);
+  if (!date || !type || amount === undefined) return null;
+
+  const rawText = typeof row.rawText === 'string' ? row.rawText.trim() : '';
+  const description = typeof row.description === 'string' && row.description.trim() ? row.description.trim() : rawText;
+  const balance = toNumber(row.balance);
+  const top = fraction(row.top);
+  const bottom = fraction(row.bottom);
+  const confidence = fraction(row.confidence);
+
+  return {
+    date,
+    description,
+    amount: Math.abs(amount),
+    type,
+    ...(balance !== undefined ? { balance } : {}),
+    ...(Number.isInteger(row.page) && (row.page as number) > 0 ? { sourcePage: row.page as number } : {}),
+    ...(rawText ? { sourceText: rawText } : {}),
+    ...(top !== undefined && bottom !== undefined && bottom > top ? { sourceRegion: { top, bottom } } : {}),
+    ...(confidence !== undefined ? { confidence } : {})
+  };
+};
+
+/**
+ * Parses the model's JSON, repairing output cut off mid-array.
+ * A repaired response is flagged as truncated so the caller can warn that trailing rows are missing,
+ * and rows without a readable date, type or amount are dropped and counted.
+ */
+export const parseExtractionJson = (jsonText: string): ExtractedStatement => {
+  const cleanJson = jsonText.replace(/```json/g, '').replace(/```/g, '').trim();
+
+  const toTransactions = (rows: unknown[]) => {
+    const transactions = rows.map(toTransaction).filter((t): t is Transaction => t !== null);
+    const rejected = rows.length - transactions.length;
+    if (rejected > 0) console.warn(`Dropped ${rejected} unreadable row${rejected === 1 ? '' : 's'} from the extraction.`);
+    return { transactions, ...(rejected > 0 ? { rejectedRows: rejected } : {}) };
+  };
+
+  const normalize = (data: unknown, truncated: boolean): ExtractedStatement => {
+    // Older prompts returned a bare array of transactions
+    if (Array.isArray(data)) return { ...toTransactions(data), truncated };
+    const fields = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    return {
+      ...toTransactions(Array.isArray(fields.transactions) ? fields.transactions : []),
+      openingBalance: toNumber(fields.openingBalance),
+      closingBalance: toNumber(fields.closingBalance),
+      accountNumber: typeof fields.accountNumber === 'string' && fields.accountNumber ? fields.accountNumber : undefined,
+      bankName: typeof fields.bankName === 'string' && fields.bankName ? fields.bankName : undefined,
+      truncated
+    };
+  };
+
+  try {
+    return normalize(JSON.parse(cleanJson), false);
+  } catch (error) {
+    // JSON Repair Strategy: close the transactions array after the last complete row
+    const lastClosingBrace = cleanJson.lastIndexOf('}');
+    if (lastClosingBrace === -1) throw error;
+    console.warn("Response truncated. Repairing JSON...");
+    const head = cleanJson.substring(0, lastClosingBrace + 1);
+    return normalize(JSON.parse(cleanJson.startsWith('[') ? head + ']' : head + ']}'), true);
+  }
+};
+
+export const stripDataUrl = (base64Data: string): string => base64Data.split(',')[1] || base64Data;
@@ -0,0 +1,35 @@
+import { ExtractedStatement, TransactionType } from "../../../types";
+
+const { CREDIT, DEBIT } = TransactionType;
+
+/**
+ * A reconciled three-month salaried-earner statement used by the offline demo provider.
+ */
+export const SAMPLE_STATEMENT: ExtractedStatement = {
+  accountNumber: '0123456789',
+  bankName: 'Demo Bank',
+  openingBalance: 152300,
+  closingBalance: 1289550,
+  transactions: [
+    { date: '2024-01-02', description: 'SMS ALERT CHARGES DEC', amount: 150, type: DEBIT, balance: 152150 },
+    { date: '2024-01-25', description: 'NIP/ACME NIGERIA LTD/SALARY JAN', amount: 850000, type: CREDIT, balance: 1002150 },
+    { date: '2024-01-26', description: 'PFA CONTRIBUTION STANBIC IBTC PENSION', amount: 68000, type: DEBIT, balance: 934150 },
+    { date: '2024-01-26', description: 'NHF DEDUCTION JAN', amount: 21250, type: DEBIT, balance: 912900 },
+    { date: '2024-01-28', description: 'POS PURCHASE SHOPRITE LEKKI', amount: 45300, type: DEBIT, balance: 867600 },
+    { date: '2024-01-30', description: 'TRF TO LANDLORD RENT Q1', amount: 450000, type: DEBIT, balance: 417600 },
+    { date: '2024-02-02', description: 'SMS ALERT CHARGES JAN', amount: 150, type: DEBIT, balance: 417450 },
+    { date: '2024-02-10', description: 'REVERSAL POS PURCHASE SHOPRITE LEKKI', amount: 45300, type: CREDIT, balance: 462750 },
+    { date: '2024-02-14', description: 'TRF FROM OWN ACCOUNT KUDA', amount: 200000, type: CREDIT, balance: 662750 },
+    { date: '2024-02-25', description: 'NIP/ACME NIGERIA LTD/SALARY FEB', amount: 850000, type: CREDIT, balance: 1512750 },
+    { date: '2024-02-26', description: 'PFA CONTRIBUTION STANBIC IBTC PENSION', amount: 68000, type: DEBIT, balance: 1444750 },
+    { date: '2024-02-26', description: 'NHF DEDUCTION FEB', amount: 21250, type: DEBIT, balance: 1423500 },
+    { date: '2024-02-28', description: 'IKEDC PREPAID ELECTRICITY', amount: 30000, type: DEBIT, balance: 1393500 },
+    { date: '2024-03-02', description: 'SMS ALERT CHARGES FEB', amount: 150, type: DEBIT, balance: 1393350 },
+    { date: '2024-03-08', description: 'LIFE ASSURANCE PREMIUM LEADWAY', amount: 25000, type: DEBIT, balance: 1368350 },
+    { date: '2024-03-15', description: 'NIP/JOHN ADE/CONSULTING FEE', amount: 300000, type: CREDIT, balance: 1668350 },
+    { date: '2024-03-25', description: 'NIP/ACME NIGERIA LTD/SALARY MAR', amount: 850000, type: CREDIT, balance: 2518350 },
+    { date: '2024-03-26', description: 'PFA CONTRIBUTION STANBIC IBTC PENSION', amount: 68000, type: DEBIT, balance: 2450350 },
+    { date: '2024-03-26', description: 'NHF DEDUCTION MAR', amount: 21250, type: DEBIT, balance: 2429100 },
+    { date: '2024-03-28', description: 'TRF TO OWN ACCOUNT KUDA', amount: 1139550, type: DEBIT, balance: 1289550 }
+  ]
+};
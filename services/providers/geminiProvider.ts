@@ -0,0 +1,159 @@
+import { GoogleGenAI, Type, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import { ExtractedStatement, ExtractionProvider, ExtractionRequest, ModelProvider, TransactionType } from "../../types";
+import { buildExtractionPrompt, parseExtractionJson, stripDataUrl } from "./extractionPrompt";
+import { NonRetryableError, RateLimitError, cancelledError, isAbortError } from "./errors";
+
+const FLASH_MODEL = 'gemini-flash-latest';
+const PRO_MODEL = 'gemini-3-pro-preview';
+
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    accountNumber: { type: Type.STRING },
+    bankName: { type: Type.STRING },
+    openingBalance: { type: Type.NUMBER },
+    closingBalance: { type: Type.NUMBER },
+    transactions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: { type: Type.STRING },
+          description: { type: Type.STRING },
+          amount: { type: Type.NUMBER },
+          type: { type: Type.STRING, enum: [TransactionType.CREDIT, TransactionType.DEBIT] },
+          balance: { type: Type.NUMBER },
+          page: { type: Type.INTEGER },
+          rawText: { type: Type.STRING },
+          top: { type: Type.NUMBER },
+          bottom: { type: Type.NUMBER },
+          confidence: { type: Type.NUMBER }
+        },
+        required: ["date", "description", "amount", "type"]
+      }
+    }
+  },
+  required: ["transactions"]
+};
+
+const mapGeminiError = (error: any, modelName: string): Error => {
+  const errStr = (error.message || error.toString()).toLowerCase();
+  let friendlyMessage = "Failed to process document.";
+  const rateLimited = errStr.includes("quota") || errStr.includes("429");
+  // Sending the same request again cannot fix credentials, a missing model or an oversized payload
+  let permanent = false;
+
+  if (errStr.includes("api key") || errStr.includes("401") || errStr.includes("403")) {
+      friendlyMessage = "Access Denied: Invalid or Missing API Key.";
+      permanent = true;
+  } else if (errStr.includes("404") || errStr.includes("not found")) {
+      friendlyMessage = "Engine Error: The selected model is not available. Please try switching between Flash and Pro.";
+      permanent = true;
+  } else if (rateLimited) {
+      friendlyMessage = "Traffic limit exceeded. Retrying automatically usually fixes this.";
+  } else if (errStr.includes("too large") || errStr.includes("payload") || errStr.includes("413")) {
+      // Handle payload limits specifically
+      permanent = true;
+      friendlyMessage = "The document size exceeds the secure transmission limit (20MB encoded). Please try compressing your PDF or converting to grayscale to reduce size.";
+  } else if (errStr.includes("token count") || errStr.includes("limit")) {
+       friendlyMessage = "This document is extremely dense. We have automatically switched to High-Capacity mode, but it may still be too large. Please split the PDF.";
+  } else if (errStr.includes("dependency") || errStr.includes("internal")) {
+      friendlyMessage = "The document structure is too complex for the engine. Please try converting to an Image or creating a simpler PDF.";
+  } else if (errStr.includes("parse the financial data")) {
+      friendlyMessage = error.message;
+  }
+
+  if (modelName === PRO_MODEL) {
+      friendlyMessage = `[Pro Audit] ${friendlyMessage}`;
+  }
+
+  if (rateLimited) return new RateLimitError(friendlyMessage);
+  return permanent ? new NonRetryableError(friendlyMessage) : new Error(friendlyMessage);
+};
+
+/**
+ * Creates a Gemini-backed provider.
+ * Implements retry logic for empty responses and stable model selection.
+ */
+const createGeminiProvider = (id: ModelProvider, label: string, defaultModel: string): ExtractionProvider => {
+  const extract = async ({ base64Data, mimeType, pageRange, signal }: ExtractionRequest, retryCount = 0): Promise<ExtractedStatement> => {
+    // 0. Pre-check API Key
+    if (!process.env.API_KEY) {
+       throw new NonRetryableError("System Configuration Error: API Key is missing.");
+    }
+
+    const cleanBase64 = stripDataUrl(base64Data);
+
+    // 1. Model Selection
+    // AUTO-SCALING: If file is larger than 10MB (likely complex or many pages), force Pro model.
+    const approximateSizeInMB = (cleanBase64.length * 0.75) / (1024 * 1024);
+    let modelName = defaultModel;
+    if (approximateSizeInMB > 10 && modelName !== PRO_MODEL) {
+      console.log("Large document detected. Switching to Gemini Pro for high-context analysis.");
+      modelName = PRO_MODEL;
+    }
+
+    try {
+      const response = await getClient().models.generateContent({
+        model: modelName,
+        contents: {
+          parts: [
+            { inlineData: { mimeType, data: cleanBase64 } },
+            { text: buildExtractionPrompt(pageRange) }
+          ]
+        },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: RESPONSE_SCHEMA,
+          safetySettings: [
+            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+            { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+          ]
+        }
+      });
+
+      const jsonText = response.text;
+
+      // 2. Retry Logic for Empty Responses (High Liquidity)
+      if (!jsonText) {
+        if (retryCount < 1) {
+          console.warn("Received empty response, retrying...");
+          return extract({ base64Data, mimeType, pageRange, signal }, retryCount + 1);
+        }
+        console.warn("The AI engine returned an empty response after retrying. Returning empty transaction list.");
+        return { transactions: [] };
+      }
+
+      // 3. Robust Parsing
+      try {
+        return parseExtractionJson(jsonText);
+      } catch (parseError) {
+        console.error("JSON Parse Error:", parseError, jsonText);
+        throw new Error("Failed to parse the financial data. The document might be illegible.");
+      }
+    } catch (error: any) {
+      if (isAbortError(error) || signal?.aborted) throw cancelledError();
+      console.error("Extraction Error:", error);
+      throw mapGeminiError(error, modelName);
+    }
+  };
+
+  return {
+    id,
+    label,
+    isConfigured: () => Boolean(process.env.API_KEY),
+    extract: (request) => extract(request)
+  };
+};
+
+export const geminiFlashProvider = createGeminiProvider(ModelProvider.GEMINI_FLASH, 'Flash (Speed)', FLASH_MODEL);
+export const geminiProProvider = createGeminiProvider(ModelProvider.GEMINI_PRO, 'Pro (Audit)', PRO_MODEL);
@@ -0,0 +1,13 @@
+import { ExtractionProvider, ModelProvider } from "../../types";
+import { geminiFlashProvider, geminiProProvider } from "./geminiProvider";
+import { openAICompatibleProvider } from "./openAICompatibleProvider";
+import { mockProvider } from "./mockProvider";
+
+export const EXTRACTION_PROVIDERS: Record<ModelProvider, ExtractionProvider> = {
+  [ModelProvider.GEMINI_FLASH]: geminiFlashProvider,
+  [ModelProvider.GEMINI_PRO]: geminiProProvider,
+  [ModelProvider.OPENAI_COMPATIBLE]: openAICompatibleProvider,
+  [ModelProvider.MOCK]: mockProvider,
+};
+
+export const getExtractionProvider = (provider: ModelProvider): ExtractionProvider => EXTRACTION_PROVIDERS[provider];
@@ -0,0 +1,59 @@
+import { ExtractedStatement, ExtractionProvider, ExtractionRequest, ModelProvider, Transaction } from "../../types";
+import { SAMPLE_STATEMENT } from "./fixtures/sampleStatement";
+
+const SIMULATED_LATENCY_MS = 600;
+const SIMULATED_CONFIDENCE = 0.97;
+
+/**
+ * Returns the fixture rows that fall on the requested pages, with the provenance a model would report.
+ * Rows are spread evenly over the document, so chunked extraction of any PDF exercises the merge path.
+ */
+const sliceFixture = (fixture: ExtractedStatement, request: ExtractionRequest): ExtractedStatement => {
+  const { startPage, endPage, totalPages } = request.pageRange ?? { startPage: 1, endPage: 1, totalPages: 1 };
+  const rows = fixture.transactions;
+  const position = (index: number) => (index * totalPages) / rows.length;
+  const pageOf = (index: number) => Math.floor(position(index)) + 1;
+
+  // Rows sit in the middle half of the page, below the statement header
+  const withProvenance = (t: Transaction, i: number): Transaction => {
+    const top = 0.25 + (position(i) % 1) * 0.5;
+    return {
+      ...t,
+      sourcePage: pageOf(i) - startPage + 1,
+      sourceText: [t.date, t.description, t.amount.toFixed(2), t.balance?.toFixed(2)].filter(Boolean).join('  '),
+      sourceRegion: { top, bottom: top + 0.5 / Math.max(1, rows.length / totalPages) },
+      confidence: SIMULATED_CONFIDENCE
+    };
+  };
+
+  if (!request.pageRange) return { ...fixture, transactions: rows.map(withProvenance), sampleData: true };
+
+  return {
+    sampleData: true,
+    accountNumber: fixture.accountNumber,
+    bankName: fixture.bankName,
+    transactions: rows.map(withProvenance).filter((_, i) => pageOf(i) >= startPage && pageOf(i) <= endPage),
+    openingBalance: startPage === 1 ? fixture.openingBalance : undefined,
+    closingBalance: endPage === totalPages ? fixture.closingBalance : undefined
+  };
+};
+
+/**
+ * Creates an offline provider that answers every request from a fixture.
+ * Used for demos and tests; no network calls are made. Only offered in development builds,
+ * since its rows have nothing to do with the uploaded file.
+ */
+export const createMockProvider = (fixture: ExtractedStatement = SAMPLE_STATEMENT): ExtractionProvider => ({
+  id: ModelProvider.MOCK,
+  label: 'Demo (sample data)',
+  isConfigured: () => import.meta.env.DEV,
+  extract: async (request) => {
+    await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+    request.signal?.throwIfAborted();
+    const result = sliceFixture(fixture, request);
+    // Copy so callers can freely edit the rows
+    return { ...result, transactions: result.transactions.map(t => ({ ...t })) };
+  }
+});
+
+export const mockProvider = createMockProvider();
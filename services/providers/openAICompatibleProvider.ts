@@ -0,0 +1,120 @@
+import { ExtractedStatement, ExtractionProvider, ExtractionRequest, ModelProvider } from "../../types";
+import { buildExtractionPrompt, parseExtractionJson, stripDataUrl } from "./extractionPrompt";
+import { NonRetryableError, RateLimitError, cancelledError, isAbortError } from "./errors";
+
+const DEFAULT_MODEL = 'gpt-4o';
+
+const getConfig = () => ({
+  // Any server that speaks the /chat/completions API: OpenAI, xAI, OpenRouter, or a local vLLM / Ollama / LM Studio
+  baseUrl: (process.env.OPENAI_BASE_URL || '').replace(/\/+$/, ''),
+  apiKey: process.env.OPENAI_API_KEY || '',
+  model: process.env.OPENAI_MODEL || DEFAULT_MODEL
+});
+
+class EndpointError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const mapEndpointError = (error: any, baseUrl: string): Error => {
+  if (error instanceof EndpointError) {
+    if (error.status === 401 || error.status === 403) {
+      return new NonRetryableError("Access Denied: The endpoint rejected the API key.");
+    }
+    if (error.status === 404) {
+      return new NonRetryableError("Engine Error: The configured model or endpoint path was not found on the server.");
+    }
+    if (error.status === 413) {
+      return new NonRetryableError("The document is too large for this endpoint. Please try a smaller file.");
+    }
+    if (error.status === 429) {
+      return new RateLimitError("Traffic limit exceeded. Retrying automatically usually fixes this.");
+    }
+    if (error.status >= 500) {
+      return new Error("The extraction server failed to process the document. Please retry shortly.");
+    }
+    // Any other 4xx is a request the server will keep refusing
+    return error.status >= 400
+      ? new NonRetryableError(`The endpoint rejected the request (${error.status}).`)
+      : new Error(`The endpoint returned an error (${error.status}).`);
+  }
+  // fetch rejects with a TypeError when the server is unreachable or blocks CORS
+  if (error instanceof TypeError) {
+    return new Error(`Could not reach the extraction endpoint at ${baseUrl}. Check that the server is running and allows browser requests.`);
+  }
+  return new Error(error?.message || "Failed to process document.");
+};
+
+const buildDocumentPart = (mimeType: string, base64: string) => {
+  const dataUrl = `data:${mimeType};base64,${base64}`;
+  if (mimeType === 'application/pdf') {
+    return { type: 'file', file: { filename: 'statement.pdf', file_data: dataUrl } };
+  }
+  return { type: 'image_url', image_url: { url: dataUrl } };
+};
+
+const extract = async ({ base64Data, mimeType, pageRange, signal }: ExtractionRequest): Promise<ExtractedStatement> => {
+  const { baseUrl, apiKey, model } = getConfig();
+  if (!baseUrl) {
+    throw new NonRetryableError("System Configuration Error: OPENAI_BASE_URL is not set.");
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'user',
+            content: [
+              buildDocumentPart(mimeType, stripDataUrl(base64Data)),
+              { type: 'text', text: buildExtractionPrompt(pageRange) }
+            ]
+          }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      throw new EndpointError(await response.text(), response.status);
+    }
+
+    const data = await response.json();
+    const jsonText: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!jsonText) {
+      console.warn("The endpoint returned an empty response. Returning empty transaction list.");
+      return { transactions: [] };
+    }
+
+    try {
+      return parseExtractionJson(jsonText);
+    } catch (parseError) {
+      console.error("JSON Parse Error:", parseError, jsonText);
+      throw new Error("Failed to parse the financial data. The document might be illegible.");
+    }
+  } catch (error: any) {
+    if (isAbortError(error) || signal?.aborted) throw cancelledError();
+    console.error("Extraction Error:", error);
+    throw mapEndpointError(error, baseUrl);
+  }
+};
+
+/**
+ * Extraction through any OpenAI-compatible chat completions endpoint.
+ * Configured with OPENAI_BASE_URL, OPENAI_API_KEY and OPENAI_MODEL.
+ */
+export const openAICompatibleProvider: ExtractionProvider = {
+  id: ModelProvider.OPENAI_COMPATIBLE,
+  label: 'Custom',
+  isConfigured: () => Boolean(getConfig().baseUrl),
+  extract
+};
@@ -0,0 +1,129 @@
+import { Transaction, TransactionType, StatementSummary, StatementFile, ReconciliationResult, BalanceBreak } from "../types";
+
+// Balances are printed to the kobo; allow for floating point drift
+const TOLERANCE = 0.01;
+
+const signedAmount = (t: Transaction) => t.type === TransactionType.CREDIT ? t.amount : -t.amount;
+
+const matches = (a: number, b: number) => Math.abs(a - b) <= TOLERANCE;
+
+/**
+ * Walks the running balance in the given order and returns each row where it stops matching.
+ * After a break the walk re-anchors on the printed balance, so one misread row is flagged once.
+ */
+const findBreaks = (transactions: Transaction[], order: number[], openingBalance?: number): BalanceBreak[] => {
+  const breaks: BalanceBreak[] = [];
+  let running = openingBalance;
+
+  for (const index of order) {
+    const t = transactions[index];
+    const expected = running !== undefined ? running + signedAmount(t) : undefined;
+
+    if (t.balance !== undefined) {
+      if (expected !== undefined && !matches(expected, t.balance)) {
+        breaks.push({ index, expectedBalance: expected, reportedBalance: t.balance });
+      }
+      running = t.balance;
+    } else {
+      running = expected;
+    }
+  }
+
+  return breaks;
+};
+
+/**
+ * Reconciles opening balance + credits - debits against the closing balance,
+ * and checks every printed running balance row by row.
+ */
+export const reconcileStatement = (transactions: Transaction[], summary: StatementSummary = {}): ReconciliationResult => {
+  const totalCredits = transactions
+    .filter(t => t.type === TransactionType.CREDIT)
+    .reduce((sum, t) => sum + t.amount, 0);
+  const totalDebits = transactions
+    .filter(t => t.type === TransactionType.DEBIT)
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  // 1. Running balances: statements may be printed oldest-first or newest-first, so keep the order that fits best
+  const forward = transactions.map((_, i) => i);
+  const forwardBreaks = findBreaks(transactions, forward, summary.openingBalance);
+  const reverseBreaks = findBreaks(transactions, [...forward].reverse(), summary.openingBalance);
+  const breaks = reverseBreaks.length < forwardBreaks.length ? reverseBreaks : forwardBreaks;
+
+  // 2. Fill missing endpoints from the first and last printed running balances
+  const withBalance = (breaks === reverseBreaks ? [...transactions].reverse() : transactions)
+    .filter(t => t.balance !== undefined);
+  const first = withBalance[0];
+  const openingBalance = summary.openingBalance ?? (first ? first.balance! - signedAmount(first) : undefined);
+  const closingBalance = summary.closingBalance ?? withBalance[withBalance.length - 1]?.balance;
+
+  // 3. Opening + credits - debits against closing
+  const expectedClosing = openingBalance !== undefined ? openingBalance + totalCredits - totalDebits : undefined;
+  const difference = expectedClosing !== undefined && closingBalance !== undefined ? closingBalance - expectedClosing : 0;
+
+  const truncated = summary.truncated === true;
+  const rejectedRows = summary.rejectedRows ?? 0;
+  const unmatchedOverlaps = summary.unmatchedOverlaps ?? 0;
+  // Rows known to be missing or possibly doubled make the extraction incomplete even when the totals happen to agree
+  const incomplete = truncated || rejectedRows > 0 || unmatchedOverlaps > 0;
+  let status: ReconciliationResult['status'] = 'UNVERIFIED';
+  if (expectedClosing !== undefined && closingBalance !== undefined) {
+    status = matches(difference, 0) && breaks.length === 0 && !incomplete ? 'RECONCILED' : 'UNRECONCILED';
+  } else if (breaks.length > 0 || incomplete) {
+    status = 'UNRECONCILED';
+  }
+
+  return {
+    status,
+    openingBalance,
+    closingBalance,
+    totalCredits,
+    totalDebits,
+    expectedClosing,
+    difference,
+    breaks,
+    truncated,
+    rejectedRows,
+    unmatchedOverlaps
+  };
+};
+
+export interface AccountReconciliation {
+  account: string;
+  statements: StatementFile[];
+  rows: Transaction[];
+  result: ReconciliationResult;
+}
+
+/**
+ * Reconciles each account across all of its statements in the session.
+ * Statements are chained in period order, from the first one's opening balance to the last one's closing balance;
+ * rows dropped as cross-file duplicates are covered by the overlapping statement, so the chain stays intact.
+ */
+export const reconcileAccounts = (statements: StatementFile[], transactions: Transaction[]): AccountReconciliation[] => {
+  const accounts = [...new Set(statements.map(s => s.account))];
+
+  return accounts.map(account => {
+    const rowsByStatement = statements
+      .filter(s => s.account === account)
+      .map(statement => {
+        const rows = transactions.filter(t => t.sourceFile === statement.id);
+        // Statements printed newest-first start with their latest row, so take the earliest date of any row
+        const firstDate = rows.reduce<string | undefined>((min, t) => min === undefined || t.date < min ? t.date : min, undefined);
+        return { statement, rows, firstDate };
+      })
+      .sort((a, b) => (a.firstDate ?? '').localeCompare(b.firstDate ?? ''));
+
+    const accountStatements = rowsByStatement.map(r => r.statement);
+    const rows = rowsByStatement.flatMap(r => r.rows);
+    const summary: StatementSummary = {
+      openingBalance: accountStatements[0]?.summary.openingBalance,
+      closingBalance: accountStatements[accountStatements.length - 1]?.summary.closingBalance,
+      truncated: accountStatements.some(s => s.summary.truncated),
+      rejectedRows: accountStatements.reduce((sum, s) => sum + (s.summary.rejectedRows ?? 0), 0),
+      unmatchedOverlaps: accountStatements.reduce((sum, s) => sum + (s.summary.unmatchedOverlaps ?? 0), 0)
+    };
+
+    return { account, statements: accountStatements, rows, result: reconcileStatement(rows, summary) };
+  });
+};
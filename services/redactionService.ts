@@ -0,0 +1,390 @@
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, PDFRef, decodePDFRawStream } from "pdf-lib";
+import { ExtractedStatement, RedactionKind, RedactionLogEntry, RedactionReport } from "../types";
+
+export interface RedactedDocument {
+  base64Data: string;
+  report: RedactionReport;
+  /** Token → original value, kept in memory only so the extraction can be restored */
+  tokens: Record<string, string>;
+}
+
+const TOKEN_PREFIXES: Partial<Record<RedactionKind, string>> = {
+  [RedactionKind.ACCOUNT_NUMBER]: 'ACCT',
+  [RedactionKind.NATIONAL_ID]: 'ID',
+  [RedactionKind.EMAIL]: 'EMAIL',
+  [RedactionKind.PHONE]: 'PHONE'
+};
+
+// Checked in order: a phone number is also 11 digits, so it must be claimed before the BVN / NIN pattern.
+// Digit runs touching other digits, or a decimal part, are amounts or references and are left alone.
+const PII_PATTERNS: { kind: RedactionKind; pattern: RegExp }[] = [
+  { kind: RedactionKind.EMAIL, pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { kind: RedactionKind.PHONE, pattern: /(?<![\d.,])(?:\+?234[ -]?|0)[789][01]\d[ -]?\d{3}[ -]?\d{4}(?![\d]|[.,]\d)/g },
+  { kind: RedactionKind.NATIONAL_ID, pattern: /(?<![\d.,])\d{11}(?![\d]|[.,]\d)/g },
+  { kind: RedactionKind.ACCOUNT_NUMBER, pattern: /(?<![\d.,])\d{10}(?![\d]|[.,]\d)/g }
+];
+
+// Only the bracketed form is a token; text such as "ID-12" printed on the statement is left as it is
+const TOKEN_PATTERN = /\[(ACCT|ID|EMAIL|PHONE)-(\d+)\]/g;
+
+const previewOf = (kind: RedactionKind, value: string): string => {
+  if (kind === RedactionKind.EMAIL) {
+    const [user, domain] = value.split('@');
+    return `${user[0]}•••@${domain}`;
+  }
+  const digits = value.replace(/\D/g, '');
+  return `${'•'.repeat(Math.max(0, digits.length - 4))}${digits.slice(-4)}`;
+};
+
+/**
+ * Replaces personal identifiers with stable tokens. The same value always gets the same token,
+ * so rows split across chunks still merge and the log counts every occurrence.
+ */
+const createTokenizer = () => {
+  const tokens: Record<string, string> = {};
+  const entries = new Map<string, RedactionLogEntry>();
+  const counters: Record<string, number> = {};
+
+  const tokenFor = (kind: RedactionKind, value: string): string => {
+    const key = `${kind}|${value}`;
+    const existing = entries.get(key);
+    if (existing) {
+      existing.occurrences++;
+      return existing.token!;
+    }
+    const prefix = TOKEN_PREFIXES[kind]!;
+    counters[prefix] = (counters[prefix] ?? 0) + 1;
+    const token = `[${prefix}-${counters[prefix]}]`;
+    tokens[token] = value;
+    entries.set(key, { kind, token, preview: previewOf(kind, value), occurrences: 1 });
+    return token;
+  };
+
+  const redact = (text: string): string =>
+    PII_PATTERNS.reduce((result, { kind, pattern }) => result.replace(pattern, value => tokenFor(kind, value)), text);
+
+  return { redact, tokens, entries: () => Array.from(entries.values()) };
+};
+
+// --- Text-layer PDFs ---
+
+const bytesToLatin1 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+};
+
+const latin1ToBytes = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Reads a literal string starting at the '(' at `start`. Returns its decoded text and the index of the closing ')'.
+ */
+const readLiteral = (content: string, start: number): { text: string; end: number } => {
+  let text = '';
+  let depth = 1;
+  let i = start + 1;
+  for (; i < content.length; i++) {
+    const c = content[i];
+    if (c === '\\') {
+      const next = content[++i];
+      if (next in ESCAPES) text += ESCAPES[next];
+      else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i, i + 3).match(/^[0-7]{1,3}/)![0];
+        text += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        i += octal.length - 1;
+      } else if (next === '\r') {
+        if (content[i + 1] === '\n') i++;
+      } else if (next !== '\n') text += next;
+    } else if (c === '(') {
+      depth++;
+      text += c;
+    } else if (c === ')') {
+      if (--depth === 0) break;
+      text += c;
+    } else {
+      text += c;
+    }
+  }
+  return { text, end: i };
+};
+
+const encodeLiteral = (text: string) => `(${text.replace(/[\\()]/g, c => `\\${c}`)})`;
+
+/**
+ * Reads a hex string starting at the '<' at `start`, one byte per character.
+ * Only single-byte fonts decode to readable text; two-byte glyph ids never form a digit run, so they pass through untouched.
+ */
+const readHex = (content: string, start: number): { text: string; end: number } => {
+  const close = content.indexOf('>', start);
+  const end = close === -1 ? content.length : close;
+  const hex = content.slice(start + 1, end).replace(/\s/g, '');
+  const padded = hex.length % 2 ? `${hex}0` : hex;
+  let text = '';
+  for (let i = 0; i < padded.length; i += 2) text += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16) || 0);
+  return { text, end };
+};
+
+const encodeHex = (text: string) => `<${Array.from(text, c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('')}>`;
+
+/**
+ * Rewrites the shown text of one content stream. TJ arrays are joined first, because generators
+ * often kern a number into several pieces; a redacted array is re-emitted as a single string.
+ * Text split across separate show operators is not joined and goes through unmasked.
+ */
+const redactContentStream = (content: string, redact: (text: string) => string): { content: string; strings: number } => {
+  let output = '';
+  let strings = 0;
+  let i = 0;
+
+  while (i < content.length) {
+    const c = content[i];
+
+    if (c === '(') {
+      const { text, end } = readLiteral(content, i);
+      const redacted = redact(text);
+      output += redacted === text ? content.slice(i, end + 1) : encodeLiteral(redacted);
+      strings++;
+      i = end + 1;
+    } else if (c === '<' && content[i + 1] === '<') {
+      output += '<<';
+      i += 2;
+    } else if (c === '<') {
+      const { text, end } = readHex(content, i);
+      const redacted = redact(text);
+      output += redacted === text ? content.slice(i, end + 1) : encodeHex(redacted);
+      strings++;
+      i = end + 1;
+    } else if (c === '[') {
+      const close = content.indexOf(']', i);
+      const body = close === -1 ? '' : content.slice(i + 1, close);
+      const isTextArray = close !== -1 && /^\s*TJ/.test(content.slice(close + 1));
+      if (!isTextArray) {
+        output += c;
+        i++;
+        continue;
+      }
+      let text = '';
+      let complete = true;
+      let hex = false;
+      for (let j = 0; j < body.length; j++) {
+        if (body[j] !== '(' && body[j] !== '<') continue;
+        hex = hex || body[j] === '<';
+        const piece = body[j] === '(' ? readLiteral(body, j) : readHex(body, j);
+        text += piece.text;
+        strings++;
+        j = piece.end;
+        complete = piece.end < body.length;
+      }
+      // A ']' inside one of the strings ended the array early; fall back to string-by-string
+      if (!complete) {
+        output += c;
+        i++;
+        continue;
+      }
+      const redacted = redact(text);
+      output += redacted === text ? content.slice(i, close + 1) : `[${hex ? encodeHex(redacted) : encodeLiteral(redacted)}]`;
+      i = close + 1;
+    } else {
+      output += c;
+      i++;
+    }
+  }
+
+  return { content: output, strings };
+};
+
+/**
+ * Page content streams plus the form XObjects they draw, which some generators put the statement body in.
+ * Also reports whether any of them use a Type0 (two-byte, e.g. Identity-H) font, whose text cannot be read without its CMap.
+ */
+const collectContentRefs = (doc: PDFDocument): { refs: PDFRef[]; type0Fonts: boolean } => {
+  const refs = new Set<PDFRef>();
+  let type0Fonts = false;
+
+  const visitResources = (resources: PDFDict | undefined) => {
+    const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+    fonts?.entries().forEach(([, font]) => {
+      const dict = font instanceof PDFRef ? doc.context.lookup(font) : font;
+      if (dict instanceof PDFDict && dict.get(PDFName.of('Subtype')) === PDFName.of('Type0')) type0Fonts = true;
+    });
+
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    xObjects?.entries().forEach(([, ref]) => {
+      if (!(ref instanceof PDFRef) || refs.has(ref)) return;
+      const stream = doc.context.lookup(ref);
+      if (stream instanceof PDFRawStream && stream.dict.get(PDFName.of('Subtype')) === PDFName.of('Form')) {
+        refs.add(ref);
+        visitResources(stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict));
+      }
+    });
+  };
+
+  doc.getPages().forEach(page => {
+    const contents = page.node.get(PDFName.of('Contents'));
+    if (contents instanceof PDFRef && doc.context.lookup(contents) instanceof PDFRawStream) refs.add(contents);
+    const array = page.node.Contents();
+    if (array instanceof PDFArray) {
+      array.asArray().forEach(ref => ref instanceof PDFRef && refs.add(ref));
+    }
+    visitResources(page.node.Resources());
+  });
+
+  return { refs: Array.from(refs), type0Fonts };
+};
+
+const redactPdf = async (base64Data: string, redact: (text: string) => string): Promise<{ base64Data: string; warning?: string }> => {
+  const doc = await PDFDocument.load(base64Data.split(',')[1] || base64Data, { ignoreEncryption: true });
+  let strings = 0;
+  let skipped = 0;
+  const { refs, type0Fonts } = collectContentRefs(doc);
+
+  for (const ref of refs) {
+    const stream = doc.context.lookup(ref);
+    if (!(stream instanceof PDFRawStream)) continue;
+
+    let content: string;
+    try {
+      content = bytesToLatin1(decodePDFRawStream(stream).decode());
+    } catch {
+      skipped++;
+      continue;
+    }
+    // Inline image data may contain bytes that look like string delimiters
+    if (/(^|\s)BI\s/.test(content)) {
+      skipped++;
+      continue;
+    }
+
+    const result = redactContentStream(content, redact);
+    strings += result.strings;
+    if (result.content === content) continue;
+
+    const replacement = doc.context.flateStream(latin1ToBytes(result.content));
+    stream.dict.entries().forEach(([key, value]) => {
+      if (!['Length', 'Filter', 'DecodeParms'].includes(key.asString().slice(1))) replacement.dict.set(key, value);
+    });
+    doc.context.assign(ref, replacement);
+  }
+
+  // Document properties often carry the account holder's name
+  doc.setTitle('');
+  doc.setAuthor('');
+  doc.setSubject('');
+  doc.setKeywords([]);
+
+  const warnings: string[] = [];
+  if (strings === 0) {
+    warnings.push('No readable text layer was found (scanned PDF), so identifiers on the page images cannot be masked.');
+  }
+  if (type0Fonts) {
+    warnings.push('Some text uses two-byte (Type0 / Identity-H) fonts that cannot be read locally, so identifiers in it cannot be masked.');
+  }
+  if (skipped > 0) {
+    warnings.push(`${skipped} content stream${skipped === 1 ? '' : 's'} could not be read, so identifiers in ${skipped === 1 ? 'it' : 'them'} cannot be masked.`);
+  }
+
+  return { base64Data: await doc.saveAsBase64(), warning: warnings.join(' ') || undefined };
+};
+
+// --- Images ---
+
+const HEADER_MIN = 0.08;
+const HEADER_MAX = 0.45;
+const FALLBACK_HEADER = 0.2;
+
+const loadImage = (dataUrl: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not read the image for redaction.'));
+  image.src = dataUrl;
+});
+
+/**
+ * The header is taken to end at the first ruled line or shaded table heading,
+ * i.e. the first pixel row in the upper part of the page that is mostly dark.
+ */
+const detectHeaderHeight = (pixels: ImageData): number => {
+  const { width, height, data } = pixels;
+  for (let y = Math.floor(height * HEADER_MIN); y < Math.floor(height * HEADER_MAX); y++) {
+    let dark = 0;
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      if (data[p] + data[p + 1] + data[p + 2] < 3 * 160) dark++;
+    }
+    if (dark / width > 0.6) return y;
+  }
+  return Math.floor(height * FALLBACK_HEADER);
+};
+
+const maskImageHeader = async (base64Data: string, mimeType: string): Promise<{ base64Data: string; entry: RedactionLogEntry }> => {
+  const dataUrl = base64Data.startsWith('data:') ? base64Data : `data:${mimeType};base64,${base64Data}`;
+  const image = await loadImage(dataUrl);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+
+  const headerHeight = detectHeaderHeight(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, headerHeight);
+
+  return {
+    base64Data: canvas.toDataURL(mimeType),
+    entry: {
+      kind: RedactionKind.HEADER,
+      preview: `Top ${Math.round((headerHeight / canvas.height) * 100)}% of the page`,
+      occurrences: 1
+    }
+  };
+};
+
+/**
+ * Masks personal details locally before a document is sent to a model.
+ * Images lose their header block; text-layer PDFs have identifiers swapped for tokens.
+ */
+export const redactDocument = async (base64Data: string, mimeType: string): Promise<RedactedDocument> => {
+  if (mimeType !== 'application/pdf') {
+    const masked = await maskImageHeader(base64Data, mimeType);
+    return { base64Data: masked.base64Data, report: { entries: [masked.entry] }, tokens: {} };
+  }
+
+  const tokenizer = createTokenizer();
+  const redacted = await redactPdf(base64Data, tokenizer.redact);
+  const entries = tokenizer.entries();
+  // Nothing masked usually means the identifiers were in text we could not read, not that there were none
+  const warning = redacted.warning ?? (entries.length === 0
+    ? 'No account numbers, BVN/NIN, emails or phone numbers were found in the readable text, so nothing was masked.'
+    : undefined);
+  return {
+    base64Data: redacted.base64Data,
+    report: { entries, warning },
+    tokens: tokenizer.tokens
+  };
+};
+
+/**
+ * Puts the original values back wherever the model copied a token.
+ */
+export const restoreTokens = (text: string, tokens: Record<string, string>): string =>
+  text.replace(TOKEN_PATTERN, match => tokens[match] ?? match);
+
+export const restoreStatement = (statement: ExtractedStatement, tokens: Record<string, string>): ExtractedStatement => {
+  if (Object.keys(tokens).length === 0) return statement;
+  const restore = (text?: string) => text && restoreTokens(text, tokens);
+  return {
+    ...statement,
+    accountNumber: restore(statement.accountNumber),
+    bankName: restore(statement.bankName),
+    transactions: statement.transactions.map(t => ({
+      ...t,
+      description: restoreTokens(t.description, tokens),
+      sourceText: restore(t.sourceText)
+    }))
+  };
+};
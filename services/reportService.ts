@@ -0,0 +1,401 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import { ComputationReportInput, IncomeCategory, TaxRegime, TransactionType } from "../types";
+import { classifyTransaction, getCategoryLabel, isTaxableIncome } from "./classificationService";
+import { summariseMonthlyCashFlow } from "./auditService";
+import { computeWithholdingCredits } from "./withholdingService";
+import { computeCapitalGains } from "./capitalGainsService";
+
+// A4 portrait, in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 24;
+
+const BODY_SIZE = 8.5;
+const ROW_HEIGHT = 13;
+
+const INK = rgb(0.06, 0.09, 0.16);
+const MUTED = rgb(0.39, 0.45, 0.55);
+const ACCENT = rgb(0.02, 0.37, 0.27);
+const RULE = rgb(0.85, 0.88, 0.9);
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+// Hand-rolled so the output never depends on the browser's locale data
+const formatAmount = (value: number): string => {
+  const [whole, fraction] = Math.abs(value).toFixed(2).split('.');
+  return `${value < 0 ? '-' : ''}${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${fraction}`;
+};
+
+const formatRate = (rate: number): string => `${Number((rate * 100).toFixed(2))}%`;
+
+const formatMonth = (month: string): string => `${MONTHS[parseInt(month.slice(5, 7), 10) - 1] ?? '?'} ${month.slice(0, 4)}`;
+
+// The standard PDF fonts only cover Latin-1; anything else would make pdf-lib throw
+const sanitize = (value: string): string => value.replace(/[^\x20-\x7E\u00A0-\u00FF\u2022\u2013\u2014]/g, '?');
+
+/**
+ * Page, cursor and pagination state for laying out the report top to bottom.
+ */
+const createWriter = (doc: PDFDocument, regular: PDFFont, bold: PDFFont) => {
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) newPage();
+  };
+
+  const fit = (value: string, font: PDFFont, size: number, width: number): string => {
+    let text = sanitize(value);
+    if (font.widthOfTextAtSize(text, size) <= width) return text;
+    while (text.length > 0 && font.widthOfTextAtSize(`${text}...`, size) > width) text = text.slice(0, -1);
+    return `${text}...`;
+  };
+
+  // With `span`, a left-aligned label runs on over the empty cells after it (used for totals)
+  const drawRow = (columns: Column[], cells: string[], font: PDFFont, color = INK, span = false) => {
+    let x = MARGIN;
+    columns.forEach((column, i) => {
+      let width = column.width;
+      if (span && column.align !== 'right') {
+        for (let next = i + 1; next < columns.length && !cells[next]; next++) width += columns[next].width;
+      }
+      const text = fit(cells[i] ?? '', font, BODY_SIZE, width - 6);
+      const offset = column.align === 'right' ? column.width - 6 - font.widthOfTextAtSize(text, BODY_SIZE) : 0;
+      page.drawText(text, { x: x + offset, y, size: BODY_SIZE, font, color });
+      x += column.width;
+    });
+  };
+
+  const drawRule = () => {
+    page.drawLine({ start: { x: MARGIN, y: y - 3 }, end: { x: PAGE_WIDTH - MARGIN, y: y - 3 }, thickness: 0.5, color: RULE });
+  };
+
+  return {
+    title(value: string, subtitle: string) {
+      page.drawText(sanitize(value), { x: MARGIN, y, size: 16, font: bold, color: INK });
+      y -= 16;
+      page.drawText(sanitize(subtitle), { x: MARGIN, y, size: BODY_SIZE, font: regular, color: MUTED });
+      y -= 22;
+    },
+
+    heading(value: string) {
+      ensureSpace(ROW_HEIGHT * 4);
+      y -= 8;
+      page.drawText(sanitize(value.toUpperCase()), { x: MARGIN, y, size: 9.5, font: bold, color: ACCENT });
+      y -= ROW_HEIGHT + 2;
+    },
+
+    keyValues(pairs: [string, string][]) {
+      for (const [label, value] of pairs) {
+        ensureSpace(ROW_HEIGHT);
+        page.drawText(sanitize(label), { x: MARGIN, y, size: BODY_SIZE, font: regular, color: MUTED });
+        page.drawText(fit(value, bold, BODY_SIZE, CONTENT_WIDTH - 140), { x: MARGIN + 140, y, size: BODY_SIZE, font: bold, color: INK });
+        y -= ROW_HEIGHT;
+      }
+    },
+
+    note(value: string) {
+      ensureSpace(ROW_HEIGHT);
+      page.drawText(fit(value, regular, 7.5, CONTENT_WIDTH), { x: MARGIN, y, size: 7.5, font: regular, color: MUTED });
+      y -= ROW_HEIGHT;
+    },
+
+    /** Header row is repeated at the top of every page the table runs onto; `totals` rows are set in bold */
+    table(columns: Column[], rows: string[][], totals: string[][] = []) {
+      const header = () => {
+        drawRow(columns, columns.map(c => c.header), bold, MUTED);
+        drawRule();
+        y -= ROW_HEIGHT;
+      };
+
+      ensureSpace(ROW_HEIGHT * 3);
+      header();
+      for (const row of rows) {
+        if (y - ROW_HEIGHT < MARGIN + FOOTER_HEIGHT) {
+          newPage();
+          header();
+        }
+        drawRow(columns, row, regular);
+        y -= ROW_HEIGHT;
+      }
+      for (const row of totals) {
+        ensureSpace(ROW_HEIGHT);
+        drawRow(columns, row, bold, INK, true);
+        y -= ROW_HEIGHT;
+      }
+      y -= 6;
+    }
+  };
+};
+
+/**
+ * Builds the formal PIT computation schedule as a PDF.
+ * Output is deterministic: no timestamps or random identifiers, so two versions of a report can be diffed.
+ */
+export const generateComputationReport = async ({ taxpayerName, accounts, transactions, tax, profile, taxAuthority, businessAccounts }: ComputationReportInput): Promise<Uint8Array> => {
+  // Without updateMetadata pdf-lib would stamp creation/modification dates
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  const title = `Personal Income Tax Computation - ${tax.assessmentYear} Year of Assessment`;
+  doc.setTitle(title);
+  doc.setCreator('NairaSync');
+  doc.setProducer('NairaSync');
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const writer = createWriter(doc, regular, bold);
+
+  const dates = transactions.map(t => t.date).sort();
+  const period = dates.length > 0 ? `${dates[0]} to ${dates[dates.length - 1]}` : 'No transactions';
+
+  // 1. Taxpayer & basis
+  writer.title(
+    title,
+    taxAuthority
+      ? `For filing with the ${taxAuthority.name} (${taxAuthority.abbreviation}) - prepared with NairaSync`
+      : 'Prepared with NairaSync from bank statement transactions'
+  );
+  writer.heading('Taxpayer & basis of assessment');
+  writer.keyValues([
+    ['Taxpayer', taxpayerName || 'Not specified'],
+    ...(profile
+      ? [
+          ['TIN', profile.tin || 'Not specified'],
+          ['State of residence', profile.state || 'Not specified'],
+          ['Employment status', profile.employmentStatus],
+          ['Dependents', String(profile.dependents)]
+        ] as [string, string][]
+      : []),
+    ['Tax authority', taxAuthority ? `${taxAuthority.name} (${taxAuthority.abbreviation})` : 'Not specified'],
+    ['Year of assessment', String(tax.assessmentYear)],
+    ['Rule set', tax.ruleSetName],
+    ['Regime', tax.regime === TaxRegime.PITA_2011 ? 'Personal Income Tax Act (as amended)' : 'Nigeria Tax Act 2025'],
+    ['Accounts', accounts.length > 0 ? accounts.join(', ') : 'Not specified'],
+    ['Statement period', period],
+    ['Transactions', String(transactions.length)]
+  ]);
+
+  // 2. Income schedule by category
+  const credits = transactions.filter(t => t.type === TransactionType.CREDIT);
+  const schedule = Object.values(IncomeCategory)
+    .map(category => {
+      const rows = credits.filter(t => (t.category ?? classifyTransaction(t)) === category);
+      return {
+        category,
+        count: rows.length,
+        amount: rows.reduce((sum, t) => sum + t.amount, 0),
+        taxable: rows.filter(isTaxableIncome).reduce((sum, t) => sum + t.amount, 0)
+      };
+    })
+    .filter(line => line.count > 0);
+
+  writer.heading('Income schedule');
+  writer.table(
+    [
+      { header: 'Category', width: 220 },
+      { header: 'Items', width: 50, align: 'right' },
+      { header: 'Total inflow (NGN)', width: 115, align: 'right' },
+      { header: 'Taxable (NGN)', width: CONTENT_WIDTH - 385, align: 'right' }
+    ],
+    schedule.map(line => [getCategoryLabel(line.category), String(line.count), formatAmount(line.amount), formatAmount(line.taxable)]),
+    [['Gross income', String(credits.length), formatAmount(credits.reduce((sum, t) => sum + t.amount, 0)), formatAmount(tax.grossIncome)]]
+  );
+
+  // 2b. Business profit computation
+  if (businessAccounts) {
+    const profitColumns: Column[] = [
+      { header: 'Profit computation', width: CONTENT_WIDTH - 115 },
+      { header: 'NGN', width: 115, align: 'right' }
+    ];
+    writer.heading('Business profit & loss');
+    writer.table(
+      profitColumns,
+      [
+        ['Turnover', formatAmount(businessAccounts.turnover)],
+        ...businessAccounts.expensesByCategory.map(e => [`Less: ${getCategoryLabel(e.category)} (WREN)`, formatAmount(-e.amount)]),
+        ['Net profit / (loss)', formatAmount(businessAccounts.netProfit)],
+        ...businessAccounts.capitalAllowances.map(a => [
+          `Less: capital allowance - ${a.assetClass}, ${a.description} (cost ${formatAmount(a.cost)})`,
+          formatAmount(-(a.initialAllowance + a.annualAllowance))
+        ]),
+        ['Unabsorbed capital allowances carried forward', formatAmount(businessAccounts.unabsorbedAllowances)],
+        ['Loss carried forward', formatAmount(businessAccounts.lossCarriedForward)],
+        ['Assessable profit', formatAmount(businessAccounts.assessableProfit)],
+        ['Add: other taxable income', formatAmount(businessAccounts.otherIncome)]
+      ],
+      [['Total income', formatAmount(businessAccounts.totalIncome)]]
+    );
+  }
+
+  // 3. Reliefs
+  writer.heading('Reliefs & deductions');
+  writer.table(
+    [
+      { header: 'Relief', width: 270 },
+      { header: 'Claimed (NGN)', width: 115, align: 'right' },
+      { header: 'Allowed (NGN)', width: CONTENT_WIDTH - 385, align: 'right' }
+    ],
+    tax.reliefs.map(line => [line.label, formatAmount(line.claimed), formatAmount(line.allowed)]),
+    [
+      ['Total relief', '', formatAmount(tax.totalRelief)],
+      ['Taxable income', '', formatAmount(tax.taxableIncome)]
+    ]
+  );
+
+  // 4. Band-by-band workings
+  writer.heading('Tax workings');
+  writer.table(
+    [
+      { header: 'Band', width: 60 },
+      { header: 'From (NGN)', width: 95, align: 'right' },
+      { header: 'To (NGN)', width: 95, align: 'right' },
+      { header: 'Rate', width: 50, align: 'right' },
+      { header: 'Taxed (NGN)', width: 100, align: 'right' },
+      { header: 'Tax (NGN)', width: CONTENT_WIDTH - 400, align: 'right' }
+    ],
+    tax.bands.map((band, i) => [
+      i === 0 ? 'First' : band.upperLimit === undefined ? 'Above' : 'Next',
+      formatAmount(band.lowerLimit),
+      band.upperLimit === undefined ? '-' : formatAmount(band.upperLimit),
+      formatRate(band.rate),
+      formatAmount(band.taxableAmount),
+      formatAmount(band.tax)
+    ]),
+    [
+      ['Tax on bands', '', '', '', formatAmount(tax.taxableIncome), formatAmount(tax.bandTax)],
+      ...(tax.minimumTax !== undefined
+        ? [[`Minimum tax (${tax.minimumTaxApplied ? 'applies' : 'lower than band tax'})`, '', '', formatRate(tax.minimumTax / tax.grossIncome), formatAmount(tax.grossIncome), formatAmount(tax.minimumTax)]]
+        : []),
+      ['Total tax payable', '', '', '', '', formatAmount(tax.totalTax)],
+      ...(tax.withholdingCredit > 0
+        ? [
+            ['Less: WHT credits', '', '', '', '', formatAmount(-tax.withholdingCredit)],
+            [tax.netTaxPayable < 0 ? 'WHT credit in excess' : 'Net tax payable', '', '', '', '', formatAmount(Math.abs(tax.netTaxPayable))]
+          ]
+        : []),
+      ['Effective / marginal rate', '', '', '', '', `${tax.effectiveRate.toFixed(2)}% / ${Number(tax.marginalRate.toFixed(2))}%`]
+    ]
+  );
+
+  // 4b. WHT credits, with the credit note behind each
+  const withholding = computeWithholdingCredits(transactions);
+  if (withholding.lines.length > 0) {
+    writer.heading('Withholding tax credits');
+    writer.table(
+      [
+        { header: 'Date', width: 58 },
+        { header: 'Description', width: 150 },
+        { header: 'Credit note', width: 80 },
+        { header: 'Rate', width: 35, align: 'right' },
+        { header: 'Gross (NGN)', width: 88, align: 'right' },
+        { header: 'WHT (NGN)', width: CONTENT_WIDTH - 411, align: 'right' }
+      ],
+      withholding.lines.map(line => [
+        line.date,
+        line.counterparty ?? line.description,
+        line.creditNote ?? '(none)',
+        formatRate(line.rate),
+        formatAmount(line.grossAmount),
+        formatAmount(line.credit)
+      ]),
+      [['Total WHT credit', '', '', '', formatAmount(withholding.lines.reduce((sum, line) => sum + line.grossAmount, 0)), formatAmount(withholding.totalCredit)]]
+    );
+  }
+
+  // 4c. Capital gains, kept apart from the PIT computation
+  const capitalGains = computeCapitalGains(transactions, tax.assessmentYear, tax.taxableIncome);
+  if (capitalGains.lines.length > 0) {
+    writer.heading('Capital gains');
+    writer.note(`${capitalGains.ruleSetName}. Disposal proceeds are excluded from gross income above.`);
+    writer.table(
+      [
+        { header: 'Date', width: 58 },
+        { header: 'Asset', width: 130 },
+        { header: 'Proceeds (NGN)', width: 88, align: 'right' },
+        { header: 'Costs (NGN)', width: 88, align: 'right' },
+        { header: 'Gain (NGN)', width: CONTENT_WIDTH - 364, align: 'right' }
+      ],
+      capitalGains.lines.map(line => [
+        line.date,
+        line.exempt ? `${line.assetType} (exempt)` : line.assetType,
+        formatAmount(line.proceeds),
+        formatAmount(line.acquisitionCost + line.incidentalCosts),
+        formatAmount(line.gain)
+      ]),
+      [
+        ...(capitalGains.allowableLosses > 0 ? [['Losses set off', '', '', '', formatAmount(-capitalGains.allowableLosses)]] : []),
+        ['Chargeable gain', '', '', '', formatAmount(capitalGains.chargeableGain)],
+        ['Capital gains tax', '', '', '', formatAmount(capitalGains.tax)]
+      ]
+    );
+  }
+
+  // 5. Monthly cash flow
+  const months = summariseMonthlyCashFlow(transactions);
+  writer.heading('Monthly cash flow');
+  writer.table(
+    [
+      { header: 'Month', width: 80 },
+      { header: 'Inflow (NGN)', width: 105, align: 'right' },
+      { header: 'Outflow (NGN)', width: 105, align: 'right' },
+      { header: 'Net (NGN)', width: 105, align: 'right' },
+      { header: 'Taxable income (NGN)', width: CONTENT_WIDTH - 395, align: 'right' }
+    ],
+    months.map(m => [formatMonth(m.month), formatAmount(m.inflow), formatAmount(m.outflow), formatAmount(m.net), formatAmount(m.taxableIncome)]),
+    [[
+      'Total',
+      formatAmount(months.reduce((sum, m) => sum + m.inflow, 0)),
+      formatAmount(months.reduce((sum, m) => sum + m.outflow, 0)),
+      formatAmount(months.reduce((sum, m) => sum + m.net, 0)),
+      formatAmount(months.reduce((sum, m) => sum + m.taxableIncome, 0))
+    ]]
+  );
+
+  // 6. Appendix: every transaction, in ledger order
+  writer.heading('Appendix - transactions');
+  writer.note('CR = credit (inflow), DR = debit (outflow). Rows marked * were corrected or added by hand.');
+  writer.table(
+    [
+      { header: 'Date', width: 58 },
+      { header: 'Account', width: 70 },
+      { header: 'Description', width: 185 },
+      { header: '', width: 22 },
+      { header: 'Category', width: 84 },
+      { header: 'Amount (NGN)', width: CONTENT_WIDTH - 419, align: 'right' }
+    ],
+    transactions.map(t => [
+      t.date,
+      t.sourceAccount ?? '',
+      `${t.edited || t.manual ? '* ' : ''}${t.description}`,
+      t.type === TransactionType.CREDIT ? 'CR' : 'DR',
+      getCategoryLabel(t.category ?? classifyTransaction(t)),
+      formatAmount(t.amount)
+    ])
+  );
+
+  // Footer on every page, now that the page count is known
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`;
+    page.drawText(sanitize(`NairaSync - ${tax.assessmentYear} computation${taxpayerName ? ` - ${taxpayerName}` : ''}`), {
+      x: MARGIN, y: MARGIN / 2, size: 7, font: regular, color: MUTED
+    });
+    page.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(label, 7), y: MARGIN / 2, size: 7, font: regular, color: MUTED
+    });
+  });
+
+  return doc.save({ useObjectStreams: false });
+};
@@ -0,0 +1,32 @@
+import { ReviewFlag, Transaction } from "../types";
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+const duplicateKey = (t: Transaction) =>
+  [t.sourceAccount ?? '', t.date, t.description.toUpperCase().replace(/\s+/g, ' ').trim()].join('|');
+
+/**
+ * Rows worth checking against the statement before the figures are relied on.
+ * Only flagged rows appear in the map.
+ */
+export const reviewTransactions = (
+  transactions: Transaction[],
+  today: string = new Date().toISOString().slice(0, 10)
+): Map<Transaction, ReviewFlag[]> => {
+  // 1. Count description-and-date pairs within each account
+  const counts = new Map<string, number>();
+  transactions.forEach(t => counts.set(duplicateKey(t), (counts.get(duplicateKey(t)) ?? 0) + 1));
+
+  // 2. Flag each row
+  const flagged = new Map<Transaction, ReviewFlag[]>();
+  transactions.forEach(t => {
+    const flags: ReviewFlag[] = [];
+    if (t.confidence !== undefined && t.confidence < LOW_CONFIDENCE_THRESHOLD) flags.push(ReviewFlag.LOW_CONFIDENCE);
+    if (t.date > today) flags.push(ReviewFlag.FUTURE_DATE);
+    if (t.amount === 0) flags.push(ReviewFlag.ZERO_AMOUNT);
+    if (counts.get(duplicateKey(t))! > 1) flags.push(ReviewFlag.DUPLICATE);
+    if (flags.length > 0) flagged.set(t, flags);
+  });
+
+  return flagged;
+};
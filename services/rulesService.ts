@@ -0,0 +1,193 @@
+import { Transaction, TransactionType, TransactionCategory, CategorisationRule, IncomeCategory, ExpenseCategory } from "../types";
+import { classifyTransaction, INCOME_CATEGORIES, EXPENSE_CATEGORIES } from "./classificationService";
+
+const STORAGE_KEY = 'categorisationRules';
+
+export const DEFAULT_RULES: CategorisationRule[] = [
+  {
+    id: 'default-salary',
+    name: 'NIP salary credit',
+    priority: 10,
+    enabled: true,
+    condition: { descriptionPattern: 'NIP/.*/SALARY', type: TransactionType.CREDIT },
+    action: { category: IncomeCategory.SALARY, taxable: true }
+  },
+  {
+    id: 'default-pos',
+    name: 'POS purchase',
+    priority: 20,
+    enabled: true,
+    condition: { descriptionPattern: 'POS PURCHASE', type: TransactionType.DEBIT },
+    action: { category: ExpenseCategory.PURCHASE }
+  },
+  {
+    id: 'default-sms',
+    name: 'SMS alert charges',
+    priority: 30,
+    enabled: true,
+    condition: { descriptionPattern: 'SMS ALERT CHARGES?', type: TransactionType.DEBIT },
+    action: { category: ExpenseCategory.BANK_CHARGES }
+  }
+];
+
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+};
+
+export const isValidPattern = (pattern: string): boolean => compilePattern(pattern) !== null;
+
+export const matchesRule = (transaction: Transaction, rule: CategorisationRule): boolean => {
+  const { descriptionPattern, type, minAmount, maxAmount, dateFrom, dateTo } = rule.condition;
+
+  if (type && transaction.type !== type) return false;
+  if (minAmount !== undefined && transaction.amount < minAmount) return false;
+  if (maxAmount !== undefined && transaction.amount > maxAmount) return false;
+  // ISO dates compare correctly as strings
+  if (dateFrom && transaction.date < dateFrom) return false;
+  if (dateTo && transaction.date > dateTo) return false;
+  if (descriptionPattern) {
+    const regex = compilePattern(descriptionPattern);
+    if (!regex || !regex.test(transaction.description)) return false;
+  }
+  return true;
+};
+
+/**
+ * Categorises transactions with the enabled rules in priority order; the first match wins.
+ * Rows the user has tagged by hand are left alone, and unmatched rows fall back to keyword detection.
+ */
+export const applyRules = (transactions: Transaction[], rules: CategorisationRule[]): Transaction[] => {
+  const active = rules
+    .filter(r => r.enabled)
+    .sort((a, b) => a.priority - b.priority);
+
+  return transactions.map(t => {
+    if (t.categorySource === 'USER') return t;
+
+    // Drop the output of any earlier rule pass before re-evaluating; a WHT rate or counterparty from elsewhere stays
+    const { ruleId, taxable, ...rest } = t;
+    const withoutRuleWht = rest.withholdingSource === 'RULE'
+      ? { ...rest, withholdingRate: undefined, withholdingSource: undefined }
+      : rest;
+    const base = withoutRuleWht.counterpartySource === 'RULE'
+      ? { ...withoutRuleWht, counterparty: undefined, counterpartySource: undefined }
+      : withoutRuleWht;
+    const rule = active.find(r => matchesRule(base, r));
+
+    if (!rule) {
+      return { ...base, category: classifyTransaction(base), categorySource: 'AUTO' };
+    }
+    const withholding = rule.action.withholdingRate !== undefined && base.withholdingSource !== 'USER'
+      ? { withholdingRate: rule.action.withholdingRate, withholdingSource: 'RULE' as const }
+      : {};
+    const counterparty = rule.action.counterparty !== undefined && base.counterpartySource !== 'USER'
+      ? { counterparty: rule.action.counterparty, counterpartySource: 'RULE' as const }
+      : {};
+    return {
+      ...base,
+      ...withholding,
+      ...counterparty,
+      category: rule.action.category ?? classifyTransaction(base),
+      categorySource: 'RULE',
+      taxable: rule.action.taxable,
+      ruleId: rule.id
+    };
+  });
+};
+
+export const loadRules = (): CategorisationRule[] => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_RULES;
+  try {
+    return parseRules(stored);
+  } catch (error) {
+    console.warn("Stored categorisation rules are invalid. Falling back to defaults.", error);
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: CategorisationRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const exportRules = (rules: CategorisationRule[]): string => JSON.stringify(rules, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses and validates a JSON rule list (as produced by exportRules).
+ */
+export const parseRules = (json: string): CategorisationRule[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Rules file is not valid JSON.");
+  }
+  if (!Array.isArray(data)) {
+    throw new Error("Rules file must contain a JSON array of rules.");
+  }
+
+  return data.map((raw: unknown, index): CategorisationRule => {
+    if (!isRecord(raw) || typeof raw.name !== 'string') {
+      throw new Error(`Rule ${index + 1} is missing a name.`);
+    }
+    const name = raw.name;
+    const condition = isRecord(raw.condition) ? raw.condition : {};
+    const action = isRecord(raw.action) ? raw.action : {};
+
+    const { descriptionPattern, type, minAmount, maxAmount, dateFrom, dateTo } = condition;
+    if (descriptionPattern !== undefined && (typeof descriptionPattern !== 'string' || !isValidPattern(descriptionPattern))) {
+      throw new Error(`Rule "${name}" has an invalid description pattern.`);
+    }
+    if (type !== undefined && type !== TransactionType.CREDIT && type !== TransactionType.DEBIT) {
+      throw new Error(`Rule "${name}" has an unknown direction "${String(type)}".`);
+    }
+    if ([minAmount, maxAmount].some(amount => amount !== undefined && typeof amount !== 'number')) {
+      throw new Error(`Rule "${name}" has an invalid amount range.`);
+    }
+    if ([dateFrom, dateTo].some(date => date !== undefined && typeof date !== 'string')) {
+      throw new Error(`Rule "${name}" has an invalid date range.`);
+    }
+
+    const { category, taxable, counterparty, withholdingRate } = action;
+    if (category !== undefined && (typeof category !== 'string' || (!(category in INCOME_CATEGORIES) && !(category in EXPENSE_CATEGORIES)))) {
+      throw new Error(`Rule "${name}" assigns an unknown category "${String(category)}".`);
+    }
+    if (taxable !== undefined && typeof taxable !== 'boolean') {
+      throw new Error(`Rule "${name}" has an invalid taxable flag.`);
+    }
+    if (counterparty !== undefined && typeof counterparty !== 'string') {
+      throw new Error(`Rule "${name}" has an invalid counterparty.`);
+    }
+    if (withholdingRate !== undefined && !(typeof withholdingRate === 'number' && withholdingRate > 0 && withholdingRate < 1)) {
+      throw new Error(`Rule "${name}" has an invalid WHT rate.`);
+    }
+
+    return {
+      id: typeof raw.id === 'string' ? raw.id : crypto.randomUUID(),
+      name,
+      priority: Number(raw.priority) || 0,
+      enabled: raw.enabled !== false,
+      condition: {
+        ...(descriptionPattern !== undefined ? { descriptionPattern: descriptionPattern as string } : {}),
+        ...(type !== undefined ? { type: type as TransactionType } : {}),
+        ...(minAmount !== undefined ? { minAmount: minAmount as number } : {}),
+        ...(maxAmount !== undefined ? { maxAmount: maxAmount as number } : {}),
+        ...(dateFrom !== undefined ? { dateFrom: dateFrom as string } : {}),
+        ...(dateTo !== undefined ? { dateTo: dateTo as string } : {})
+      },
+      action: {
+        ...(category !== undefined ? { category: category as TransactionCategory } : {}),
+        ...(taxable !== undefined ? { taxable: taxable as boolean } : {}),
+        ...(counterparty !== undefined ? { counterparty: counterparty as string } : {}),
+        ...(withholdingRate !== undefined ? { withholdingRate: withholdingRate as number } : {})
+      }
+    };
+  });
+};
@@ -0,0 +1,51 @@
+import { ScenarioResult, StatutoryDeductions, TaxInputs, TaxRegime, TaxScenario } from "../types";
+import { calculateNigerianPIT } from "./taxService";
+import { getTaxRuleSet } from "./taxRules";
+
+const REGIME_LABELS: Record<TaxRegime, string> = {
+  [TaxRegime.PITA_2011]: 'PITA 2011',
+  [TaxRegime.NTA_2025]: 'NTA 2025'
+};
+
+export const getRegimeLabel = (regime: TaxRegime): string => REGIME_LABELS[regime];
+
+const sumDeductions = (deductions: StatutoryDeductions): number =>
+  deductions.pension + deductions.nhf + deductions.nhis + deductions.lifeAssurance + (deductions.voluntaryPension ?? 0);
+
+/**
+ * Clones the current audit's figures into a new scenario.
+ */
+export const createScenario = (name: string, grossIncome: number, inputs: TaxInputs, regime?: TaxRegime): TaxScenario => ({
+  id: crypto.randomUUID(),
+  name,
+  grossIncome,
+  annualRent: inputs.annualRent,
+  deductions: { voluntaryPension: 0, ...inputs.deductions },
+  regime: regime ?? getTaxRuleSet(inputs.assessmentYear).regime
+});
+
+/**
+ * Prices a scenario and compares its tax with the current audit's.
+ */
+export const computeScenario = (scenario: TaxScenario, assessmentYear: number, baselineTax: number): ScenarioResult => {
+  const tax = calculateNigerianPIT(scenario.grossIncome, {
+    assessmentYear,
+    annualRent: scenario.annualRent,
+    deductions: scenario.deductions,
+    regime: scenario.regime
+  });
+  return {
+    scenario,
+    tax,
+    takeHome: scenario.grossIncome - tax.totalTax - sumDeductions(scenario.deductions),
+    taxDelta: tax.totalTax - baselineTax
+  };
+};
+
+/**
+ * The same income and deductions priced under each regime.
+ */
+export const compareRegimes = (grossIncome: number, inputs: TaxInputs, baselineTax: number): ScenarioResult[] =>
+  Object.values(TaxRegime).map(regime =>
+    computeScenario(createScenario(getRegimeLabel(regime), grossIncome, inputs, regime), inputs.assessmentYear, baselineTax)
+  );
@@ -0,0 +1,102 @@
+import { AuditSessionData, AuditSessionMeta, StoredAuditSession } from "../types";
+import { encryptJson, decryptJson } from "./cryptoService";
+
+const DB_NAME = 'nairasync';
+const DB_VERSION = 1;
+const STORE = 'auditSessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error("Browser storage is unavailable. Saved sessions need IndexedDB (disabled in some private windows)."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Browser storage request failed."));
+  });
+};
+
+const toMeta = ({ data, encryptedData, ...meta }: StoredAuditSession): AuditSessionMeta => meta;
+
+/**
+ * All saved sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<AuditSessionMeta[]> => {
+  const records = await runRequest<StoredAuditSession[]>('readonly', store => store.getAll());
+  return records.map(toMeta).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Creates or overwrites a session. With a passphrase the audit data is encrypted at rest
+ * and only the session name and dates stay readable.
+ */
+export const saveSession = async (
+  session: { id?: string; name: string },
+  data: AuditSessionData,
+  passphrase?: string
+): Promise<AuditSessionMeta> => {
+  const id = session.id ?? crypto.randomUUID();
+  const existing = session.id ? await runRequest<StoredAuditSession | undefined>('readonly', store => store.get(id)) : undefined;
+  const now = new Date().toISOString();
+
+  const base = { id, name: session.name, createdAt: existing?.createdAt ?? now, updatedAt: now };
+  const record: StoredAuditSession = passphrase
+    ? { ...base, encrypted: true, encryptedData: await encryptJson(data, passphrase, id) }
+    : {
+        ...base,
+        encrypted: false,
+        client: data.client,
+        assessmentYear: data.taxResult.assessmentYear,
+        transactionCount: data.transactions.length,
+        totalTax: data.taxResult.totalTax,
+        data
+      };
+
+  await runRequest('readwrite', store => store.put(record));
+  return toMeta(record);
+};
+
+export const openSession = async (id: string, passphrase?: string): Promise<{ meta: AuditSessionMeta; data: AuditSessionData }> => {
+  const record = await runRequest<StoredAuditSession | undefined>('readonly', store => store.get(id));
+  if (!record) throw new Error("This session no longer exists.");
+
+  if (record.encryptedData) {
+    if (!passphrase) throw new Error("This session is encrypted. Enter its passphrase to open it.");
+    return { meta: toMeta(record), data: await decryptJson<AuditSessionData>(record.encryptedData, passphrase, id) };
+  }
+  return { meta: toMeta(record), data: record.data! };
+};
+
+/**
+ * Copies a session under a new name. Encrypted sessions are copied as-is, so the copy keeps the same passphrase.
+ */
+export const duplicateSession = async (id: string): Promise<AuditSessionMeta> => {
+  const record = await runRequest<StoredAuditSession | undefined>('readonly', store => store.get(id));
+  if (!record) throw new Error("This session no longer exists.");
+
+  const now = new Date().toISOString();
+  const copy: StoredAuditSession = { ...record, id: crypto.randomUUID(), name: `Copy of ${record.name}`, createdAt: now, updatedAt: now };
+  await runRequest('readwrite', store => store.put(copy));
+  return toMeta(copy);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,260 @@
+import { TaxRegime, TaxRuleSet, DeductionRule, ReliefType, AssetClass, CapitalAllowanceRate, CompanySize, CompanyTaxRuleSet, VatRatePeriod, CgtRuleSet } from "../types";
+
+/**
+ * Registry of Nigerian Personal Income Tax rule sets, keyed by assessment year.
+ * Add a new entry here whenever a Finance Act changes the bands or reliefs.
+ */
+export const TAX_RULE_SETS: TaxRuleSet[] = [
+  {
+    // PITA 2011 (as amended by the Finance Acts 2019 - 2023)
+    regime: TaxRegime.PITA_2011,
+    name: 'PITA 2011 (as amended)',
+    firstYear: 2011,
+    lastYear: 2025,
+    relief: { kind: 'CRA', fixedMinimum: 200000, minimumGrossRate: 0.01, grossRate: 0.20 },
+    bands: [
+      { limit: 300000, rate: 0.07 },
+      { limit: 300000, rate: 0.11 },
+      { limit: 500000, rate: 0.15 },
+      { limit: 500000, rate: 0.19 },
+      { limit: 1600000, rate: 0.21 },
+      { limit: Infinity, rate: 0.24 },
+    ],
+    // PITA s.37: 1% of gross income where banded tax is lower
+    minimumTaxRate: 0.01
+  },
+  {
+    // Nigeria Tax Act 2025, effective 1 January 2026
+    regime: TaxRegime.NTA_2025,
+    name: 'Nigeria Tax Act 2025',
+    firstYear: 2026,
+    relief: { kind: 'RENT', rate: 0.20, cap: 500000 },
+    bands: [
+      { limit: 800000, rate: 0 },
+      { limit: 2200000, rate: 0.15 },
+      { limit: 9000000, rate: 0.18 },
+      { limit: 13000000, rate: 0.21 },
+      { limit: 25000000, rate: 0.23 },
+      { limit: Infinity, rate: 0.25 },
+    ]
+  }
+];
+
+/**
+ * Statutory deductions allowed before the bands under both regimes.
+ * Caps are a share of gross income, standing in for the emoluments each statute references.
+ */
+export const DEDUCTION_RULES: DeductionRule[] = [
+  {
+    // Employee contribution, Pension Reform Act 2014 s.4
+    type: ReliefType.PENSION,
+    key: 'pension',
+    label: 'Pension Contribution',
+    grossCapRate: 0.08,
+    // Voluntary contributions are left to their own rule below
+    pattern: /^(?!.*\b(AVC|VOLUNTARY)\b).*\b(PFA|RSA|PENSIONS?)\b/i
+  },
+  {
+    // National Housing Fund Act, 2.5% of basic salary
+    type: ReliefType.NHF,
+    key: 'nhf',
+    label: 'National Housing Fund',
+    grossCapRate: 0.025,
+    pattern: /\b(NHF|HOUSING FUND)\b/i
+  },
+  {
+    // National Health Insurance Authority Act 2022, employee share
+    type: ReliefType.NHIS,
+    key: 'nhis',
+    label: 'Health Insurance (NHIS)',
+    grossCapRate: 0.05,
+    pattern: /\b(NHIS|NHIA|HMO|HEALTH INSURANCE)\b/i
+  },
+  {
+    // Additional voluntary contributions, Pension Reform Act 2014 s.10; not capped
+    type: ReliefType.VOLUNTARY_PENSION,
+    key: 'voluntaryPension',
+    label: 'Voluntary Pension',
+    pattern: /\b(AVC|VOLUNTARY (PENSION )?CONTRIBUTION)\b/i
+  },
+  {
+    // Premiums on the life of the taxpayer or spouse, deductible in full
+    type: ReliefType.LIFE_ASSURANCE,
+    key: 'lifeAssurance',
+    label: 'Life Assurance Premium',
+    pattern: /\b(LIFE ASSURANCE|LIFE INSURANCE|LIFE POLICY)\b/i
+  }
+];
+
+/**
+ * Capital allowance rates from the Second Schedule (PITA / CITA), claimed in the year of purchase:
+ * the initial allowance on cost plus the first annual allowance on what is left.
+ */
+export const CAPITAL_ALLOWANCE_RATES: Record<AssetClass, CapitalAllowanceRate> = {
+  [AssetClass.PLANT]: { initial: 0.50, annual: 0.25 },
+  [AssetClass.MOTOR_VEHICLE]: { initial: 0.50, annual: 0.25 },
+  [AssetClass.FURNITURE]: { initial: 0.25, annual: 0.20 },
+  [AssetClass.INDUSTRIAL_BUILDING]: { initial: 0.15, annual: 0.10 },
+  [AssetClass.OTHER_BUILDING]: { initial: 0.05, annual: 0.10 }
+};
+
+const CITA_SIZES = [
+  { size: CompanySize.SMALL, turnoverLimit: 25000000, citRate: 0 },
+  { size: CompanySize.MEDIUM, turnoverLimit: 100000000, citRate: 0.20 },
+  { size: CompanySize.LARGE, turnoverLimit: Infinity, citRate: 0.30 }
+];
+
+/**
+ * Registry of Companies Income Tax rule sets, keyed by assessment year like TAX_RULE_SETS.
+ */
+export const COMPANY_TAX_RULE_SETS: CompanyTaxRuleSet[] = [
+  {
+    // CITA before the Finance Act 2019: a flat 30% with no small-company exemption, TET at 2%
+    name: 'CITA 2004',
+    firstYear: 2011,
+    lastYear: 2019,
+    sizes: [{ size: CompanySize.LARGE, turnoverLimit: Infinity, citRate: 0.30 }],
+    educationTax: { label: 'Tertiary Education Tax', rate: 0.02, smallCompanyExempt: false },
+    minimumTaxRate: 0.005
+  },
+  {
+    // CITA as amended by the Finance Act 2019: size bands, TET at 2%, minimum tax at 0.5% of turnover
+    name: 'CITA (Finance Act 2019)',
+    firstYear: 2020,
+    lastYear: 2020,
+    sizes: CITA_SIZES,
+    educationTax: { label: 'Tertiary Education Tax', rate: 0.02, smallCompanyExempt: false },
+    minimumTaxRate: 0.005
+  },
+  {
+    // Finance Act 2021 raised TET to 2.5%
+    name: 'CITA (Finance Act 2021)',
+    firstYear: 2021,
+    lastYear: 2022,
+    sizes: CITA_SIZES,
+    educationTax: { label: 'Tertiary Education Tax', rate: 0.025, smallCompanyExempt: false },
+    minimumTaxRate: 0.005
+  },
+  {
+    // Finance Act 2023 raised TET to 3%
+    name: 'CITA (Finance Act 2023)',
+    firstYear: 2023,
+    lastYear: 2025,
+    sizes: CITA_SIZES,
+    educationTax: { label: 'Tertiary Education Tax', rate: 0.03, smallCompanyExempt: false },
+    minimumTaxRate: 0.005
+  },
+  {
+    // Nigeria Tax Act 2025: small companies up to N100m turnover exempt, development levy replaces TET
+    name: 'Nigeria Tax Act 2025',
+    firstYear: 2026,
+    sizes: [
+      { size: CompanySize.SMALL, turnoverLimit: 100000000, citRate: 0 },
+      { size: CompanySize.LARGE, turnoverLimit: Infinity, citRate: 0.30 }
+    ],
+    educationTax: { label: 'Development Levy', rate: 0.04, smallCompanyExempt: true }
+  }
+];
+
+/**
+ * Registry of capital gains rule sets for individuals, keyed by assessment year like TAX_RULE_SETS.
+ * The principal private residence and private motor vehicles are exempt under all of them.
+ */
+export const CGT_RULE_SETS: CgtRuleSet[] = [
+  {
+    // CGTA s.30: gains on shares fully exempt
+    name: 'CGTA 2004',
+    firstYear: 2011,
+    lastYear: 2021,
+    rate: 0.10,
+    shareExemption: {},
+    lossesAllowed: false
+  },
+  {
+    // Finance Act 2021: share disposals exempt below N100m proceeds in any 12 months
+    name: 'CGTA (Finance Act 2021)',
+    firstYear: 2022,
+    lastYear: 2025,
+    rate: 0.10,
+    shareExemption: { proceedsLimit: 100000000 },
+    lossesAllowed: false
+  },
+  {
+    // Nigeria Tax Act 2025: gains taxed at the PIT rates; small share disposals exempt
+    name: 'Nigeria Tax Act 2025',
+    firstYear: 2026,
+    shareExemption: { proceedsLimit: 150000000, gainLimit: 10000000 },
+    lossesAllowed: true
+  }
+];
+
+/**
+ * Statutory VAT rates. The Finance Act 2019 raised the rate from 5% to 7.5% from February 2020.
+ */
+export const VAT_RATES: VatRatePeriod[] = [
+  { from: '1994-01', rate: 0.05 },
+  { from: '2020-02', rate: 0.075 }
+];
+
+/**
+ * WHT rates on payments to individuals for services and contracts: 5% with a TIN, 10% on
+ * directors' fees, rent and consultancy under the older schedule.
+ */
+export const WITHHOLDING_RATES = [0.05, 0.10];
+
+export const EARLIEST_ASSESSMENT_YEAR = TAX_RULE_SETS[0].firstYear;
+
+/**
+ * Assessment years offered in the UI, newest first.
+ * Runs up to the later of the current year and the newest rule set.
+ */
+export const getAssessmentYears = (): number[] => {
+  const latest = Math.max(new Date().getFullYear(), ...TAX_RULE_SETS.map(r => r.firstYear));
+  const years: number[] = [];
+  for (let year = latest; year >= EARLIEST_ASSESSMENT_YEAR; year--) {
+    years.push(year);
+  }
+  return years;
+};
+
+/**
+ * Returns the rule set in force for an assessment year.
+ * Years before the registry fall back to the oldest set; years after it to the newest.
+ */
+export const getTaxRuleSet = (assessmentYear: number): TaxRuleSet => {
+  const match = TAX_RULE_SETS.find(r =>
+    assessmentYear >= r.firstYear && (r.lastYear === undefined || assessmentYear <= r.lastYear)
+  );
+  if (match) return match;
+  return assessmentYear < EARLIEST_ASSESSMENT_YEAR ? TAX_RULE_SETS[0] : TAX_RULE_SETS[TAX_RULE_SETS.length - 1];
+};
+
+/**
+ * Returns the company tax rule set in force for an assessment year, with the same fallbacks as getTaxRuleSet.
+ */
+export const getCompanyTaxRuleSet = (assessmentYear: number): CompanyTaxRuleSet => {
+  const match = COMPANY_TAX_RULE_SETS.find(r =>
+    assessmentYear >= r.firstYear && (r.lastYear === undefined || assessmentYear <= r.lastYear)
+  );
+  if (match) return match;
+  return assessmentYear < COMPANY_TAX_RULE_SETS[0].firstYear
+    ? COMPANY_TAX_RULE_SETS[0]
+    : COMPANY_TAX_RULE_SETS[COMPANY_TAX_RULE_SETS.length - 1];
+};
+
+/**
+ * Returns the capital gains rule set in force for an assessment year, with the same fallbacks as getTaxRuleSet.
+ */
+export const getCgtRuleSet = (assessmentYear: number): CgtRuleSet => {
+  const match = CGT_RULE_SETS.find(r =>
+    assessmentYear >= r.firstYear && (r.lastYear === undefined || assessmentYear <= r.lastYear)
+  );
+  if (match) return match;
+  return assessmentYear < CGT_RULE_SETS[0].firstYear ? CGT_RULE_SETS[0] : CGT_RULE_SETS[CGT_RULE_SETS.length - 1];
+};
+
+/**
+ * The newest rule set of a regime, for comparing regimes on the same income.
+ */
+export const getRegimeRuleSet = (regime: TaxRegime): TaxRuleSet =>
+  [...TAX_RULE_SETS].reverse().find(r => r.regime === regime) ?? TAX_RULE_SETS[TAX_RULE_SETS.length - 1];
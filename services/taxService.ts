@@ -0,0 +1,192 @@
+import {
+  Transaction,
+  TransactionType,
+  TaxBreakdown,
+  TaxBand,
+  TaxBandWorking,
+  PITOptions,
+  ReliefRule,
+  ReliefLine,
+  ReliefType,
+  StatutoryDeductions,
+  TaxInputs,
+  TaxMode
+} from "../types";
+import { getTaxRuleSet, getRegimeRuleSet, DEDUCTION_RULES } from "./taxRules";
+import { isTaxableIncome } from "./classificationService";
+import { computeBusinessProfitLoss } from "./businessService";
+import { computeWithholdingCredits } from "./withholdingService";
+
+export const EMPTY_DEDUCTIONS: StatutoryDeductions = { pension: 0, nhf: 0, nhis: 0, lifeAssurance: 0, voluntaryPension: 0 };
+
+const computeRelief = (relief: ReliefRule, reliefBase: number, annualRent: number) => {
+  if (relief.kind === 'CRA') {
+    // Higher of the fixed minimum or 1% of Gross Income, PLUS 20% of Gross Income
+    const baseRelief = Math.max(relief.fixedMinimum, reliefBase * relief.minimumGrossRate);
+    const variableRelief = reliefBase * relief.grossRate;
+    return { consolidatedRelief: baseRelief + variableRelief, rentRelief: 0 };
+  }
+  // 20% of annual rent paid, capped
+  return { consolidatedRelief: 0, rentRelief: Math.min(relief.cap, Math.max(0, annualRent) * relief.rate) };
+};
+
+/**
+ * Applies each statutory deduction's cap and returns one relief line per claimed item.
+ */
+const computeDeductionLines = (grossIncome: number, deductions: Partial<StatutoryDeductions>): ReliefLine[] => {
+  return DEDUCTION_RULES
+    .map(rule => {
+      const claimed = Math.max(0, deductions[rule.key] ?? 0);
+      const cap = rule.grossCapRate !== undefined ? grossIncome * rule.grossCapRate : Infinity;
+      return { type: rule.type, label: rule.label, claimed, allowed: Math.min(claimed, cap) };
+    })
+    .filter(line => line.claimed > 0);
+};
+
+/**
+ * Splits taxable income across the graduated bands. Every band is returned, including those not reached.
+ */
+export const computeBandWorkings = (taxableIncome: number, bands: TaxBand[]): TaxBandWorking[] => {
+  let lowerLimit = 0;
+  let remaining = Math.max(0, taxableIncome);
+
+  return bands.map(band => {
+    const taxableAmount = Math.min(remaining, band.limit);
+    const working: TaxBandWorking = {
+      lowerLimit,
+      upperLimit: Number.isFinite(band.limit) ? lowerLimit + band.limit : undefined,
+      rate: band.rate,
+      taxableAmount,
+      tax: taxableAmount * band.rate
+    };
+    remaining -= taxableAmount;
+    lowerLimit += band.limit;
+    return working;
+  });
+};
+
+/**
+ * The band the next naira of taxable income would fall in.
+ */
+const findMarginalBand = (taxableIncome: number, workings: TaxBandWorking[]): TaxBandWorking | undefined =>
+  workings.find(band => band.upperLimit === undefined || taxableIncome < band.upperLimit) ?? workings[workings.length - 1];
+
+/**
+ * Calculates Nigerian Personal Income Tax (PIT) based on Gross Income.
+ * Uses the rule set in force for the assessment year (CRA under PITA, rent relief under the NTA 2025).
+ */
+export const calculateNigerianPIT = (grossIncome: number, options: PITOptions = {}): TaxBreakdown => {
+  const assessmentYear = options.assessmentYear ?? new Date().getFullYear();
+  const ruleSet = options.regime ? getRegimeRuleSet(options.regime) : getTaxRuleSet(assessmentYear);
+
+  // 1. Statutory Deductions (pension, NHF, NHIS, life assurance)
+  const deductionLines = computeDeductionLines(grossIncome, options.deductions ?? {});
+  const totalDeductions = deductionLines.reduce((sum, line) => sum + line.allowed, 0);
+
+  // 2. Statutory Relief
+  // Finance Act 2020: CRA is computed on gross income net of tax-exempt deductions
+  const annualRent = Math.max(0, options.annualRent ?? 0);
+  const { consolidatedRelief, rentRelief } = computeRelief(
+    ruleSet.relief,
+    Math.max(0, grossIncome - totalDeductions),
+    annualRent
+  );
+
+  const reliefs: ReliefLine[] = ruleSet.relief.kind === 'CRA'
+    ? [{ type: ReliefType.CRA, label: 'Consolidated Relief', claimed: consolidatedRelief, allowed: consolidatedRelief }]
+    : [{ type: ReliefType.RENT, label: 'Rent Relief', claimed: annualRent, allowed: rentRelief }];
+  reliefs.push(...deductionLines);
+  const totalRelief = consolidatedRelief + rentRelief + totalDeductions;
+
+  // 3. Taxable Income
+  const taxableIncome = Math.max(0, grossIncome - totalRelief);
+
+  // 4. Apply Tax Bands
+  const bands = computeBandWorkings(taxableIncome, ruleSet.bands);
+  const bandTax = bands.reduce((sum, band) => sum + band.tax, 0);
+
+  // 5. Minimum Tax test (PITA only)
+  const minimumTax = ruleSet.minimumTaxRate !== undefined && grossIncome > 0 ? grossIncome * ruleSet.minimumTaxRate : undefined;
+  const minimumTaxApplied = minimumTax !== undefined && minimumTax > bandTax;
+  const tax = minimumTaxApplied ? minimumTax! : bandTax;
+
+  return {
+    assessmentYear,
+    regime: ruleSet.regime,
+    ruleSetName: ruleSet.name,
+    grossIncome,
+    consolidatedRelief,
+    rentRelief,
+    reliefs,
+    totalRelief,
+    taxableIncome,
+    bands,
+    bandTax,
+    minimumTax,
+    minimumTaxApplied,
+    totalTax: tax,
+    effectiveRate: grossIncome > 0 ? (tax / grossIncome) * 100 : 0,
+    marginalRate: (findMarginalBand(taxableIncome, bands)?.rate ?? 0) * 100,
+    withholdingCredit: 0,
+    netTaxPayable: tax
+  };
+};
+
+/**
+ * Picks a default assessment year from the most recent transaction date.
+ */
+export const inferAssessmentYear = (transactions: Transaction[]): number => {
+  const years = transactions
+    .map(t => parseInt(t.date.slice(0, 4), 10))
+    .filter(y => !isNaN(y));
+  return years.length > 0 ? Math.max(...years) : new Date().getFullYear();
+};
+
+/**
+ * Sums DEBIT transactions whose descriptions match a statutory deduction (e.g. "PFA", "NHF").
+ */
+export const detectStatutoryDeductions = (transactions: Transaction[]): StatutoryDeductions => {
+  const detected: StatutoryDeductions = { ...EMPTY_DEDUCTIONS };
+  for (const t of transactions) {
+    if (t.type !== TransactionType.DEBIT) continue;
+    const rule = DEDUCTION_RULES.find(r => r.pattern.test(t.description));
+    if (rule) detected[rule.key] = (detected[rule.key] ?? 0) + t.amount;
+  }
+  return detected;
+};
+
+/**
+ * Gross income for PIT: taxable credits only (transfers, loans, reversals and gifts are excluded).
+ */
+export const sumTaxableIncome = (transactions: Transaction[]): number =>
+  transactions
+    .filter(isTaxableIncome)
+    .reduce((sum, t) => sum + t.amount, 0);
+
+/**
+ * Starting tax inputs for an audit the user has not adjusted yet.
+ */
+export const defaultTaxInputs = (transactions: Transaction[]): TaxInputs => ({
+  assessmentYear: inferAssessmentYear(transactions),
+  annualRent: 0,
+  deductions: detectStatutoryDeductions(transactions),
+  mode: TaxMode.ANNUAL,
+  payslips: []
+});
+
+/**
+ * PIT for an audit under its current inputs. In business mode the profit computation replaces gross credits.
+ * Income received net of WHT is grossed up, and the WHT is then credited against the tax.
+ */
+export const computeTaxBreakdown = (transactions: Transaction[], inputs: TaxInputs): TaxBreakdown => {
+  const withholding = computeWithholdingCredits(transactions);
+  const income = inputs.mode === TaxMode.BUSINESS
+    ? computeBusinessProfitLoss(transactions).totalIncome
+    : sumTaxableIncome(transactions);
+  const tax = calculateNigerianPIT(income + withholding.totalCredit, inputs);
+  return {
+    ...tax,
+    withholdingCredit: withholding.totalCredit,
+    netTaxPayable: tax.totalTax - withholding.totalCredit
+  };
+};
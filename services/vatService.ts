@@ -0,0 +1,86 @@
+import { Transaction, TransactionType, VatMonth, VatRatePeriod, VatReturnSummary, VatTreatment } from "../types";
+import { VAT_RATES } from "./taxRules";
+
+/**
+ * The VAT rate for a month: the latest period starting on or before it.
+ */
+export const getVatRate = (month: string, periods: VatRatePeriod[] = VAT_RATES): number => {
+  const sorted = [...periods].sort((a, b) => a.from.localeCompare(b.from));
+  const match = sorted.filter(p => p.from <= month).pop() ?? sorted[0];
+  return match?.rate ?? 0;
+};
+
+/**
+ * Splits a VAT-inclusive amount into its net value and the VAT within it.
+ */
+export const splitVatInclusive = (amount: number, rate: number) => {
+  const net = amount / (1 + rate);
+  return { net, vat: amount - net };
+};
+
+/**
+ * Builds the month-by-month VAT position from tagged rows.
+ * Tagged credits are sales and tagged debits purchases; only standard-rated rows carry VAT.
+ */
+export const computeVatReturn = (transactions: Transaction[], periods: VatRatePeriod[] = VAT_RATES): VatReturnSummary => {
+  const months = new Map<string, VatMonth>();
+
+  for (const t of transactions) {
+    if (!t.vat) continue;
+    const key = t.date.slice(0, 7);
+    const rate = getVatRate(key, periods);
+    const month = months.get(key) ?? {
+      month: key,
+      rate,
+      totalSales: 0,
+      exemptSales: 0,
+      zeroRatedSales: 0,
+      standardRatedSales: 0,
+      outputVat: 0,
+      standardRatedPurchases: 0,
+      inputVat: 0,
+      netVat: 0
+    };
+    months.set(key, month);
+
+    // 1. Zero-rated and exempt supplies carry no VAT, so the whole amount is net
+    const { net, vat } = t.vat === VatTreatment.STANDARD ? splitVatInclusive(t.amount, rate) : { net: t.amount, vat: 0 };
+
+    // 2. Sales build output VAT, purchases input VAT
+    if (t.type === TransactionType.CREDIT) {
+      month.totalSales += net;
+      if (t.vat === VatTreatment.EXEMPT) month.exemptSales += net;
+      else if (t.vat === VatTreatment.ZERO) month.zeroRatedSales += net;
+      else month.standardRatedSales += net;
+      month.outputVat += vat;
+    } else if (t.vat === VatTreatment.STANDARD) {
+      month.standardRatedPurchases += net;
+      month.inputVat += vat;
+    }
+    month.netVat = month.outputVat - month.inputVat;
+  }
+
+  const sorted = [...months.values()].sort((a, b) => a.month.localeCompare(b.month));
+  const totalOutputVat = sorted.reduce((sum, m) => sum + m.outputVat, 0);
+  const totalInputVat = sorted.reduce((sum, m) => sum + m.inputVat, 0);
+
+  return { months: sorted, totalOutputVat, totalInputVat, netVat: totalOutputVat - totalInputVat };
+};
+
+/**
+ * CSV of the VAT schedule, one row per month in the order of the return's lines.
+ */
+export const vatReturnToCsv = (summary: VatReturnSummary): string => {
+  const headers = [
+    'Month', 'VAT Rate', 'Total Sales', 'Exempt Sales', 'Zero-rated Sales', 'Standard-rated Sales',
+    'Output VAT', 'Standard-rated Purchases', 'Input VAT', 'Net VAT Payable/(Refundable)'
+  ];
+  const rows = summary.months.map(m => [
+    m.month,
+    `${Number((m.rate * 100).toFixed(2))}%`,
+    ...[m.totalSales, m.exemptSales, m.zeroRatedSales, m.standardRatedSales, m.outputVat, m.standardRatedPurchases, m.inputVat, m.netVat]
+      .map(amount => amount.toFixed(2))
+  ]);
+  const total = ['Total', '', '', '', '', '', summary.totalOutputVat.toFixed(2), '', summary.totalInputVat.toFixed(2), summary.netVat.toFixed(2)];
+  return [headers, ...rows, total].map(r => r.join(',')).join('\n');
+};
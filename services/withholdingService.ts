@@ -0,0 +1,35 @@
+import { Transaction, WithholdingCreditLine, WithholdingSummary } from "../types";
+import { isTaxableIncome } from "./classificationService";
+
+/**
+ * Grosses up an amount received net of WHT: the payer withheld `rate` of the gross and paid the rest.
+ */
+export const grossUpWithholding = (netAmount: number, rate: number) => {
+  const grossAmount = netAmount / (1 - rate);
+  return { grossAmount, credit: grossAmount - netAmount };
+};
+
+/**
+ * Lists the WHT credits on taxable income flagged as received net of WHT.
+ */
+export const computeWithholdingCredits = (transactions: Transaction[]): WithholdingSummary => {
+  const lines: WithholdingCreditLine[] = transactions
+    .filter(t => t.withholdingRate !== undefined && t.withholdingRate > 0 && isTaxableIncome(t))
+    .map(t => ({
+      date: t.date,
+      description: t.description,
+      counterparty: t.counterparty,
+      netAmount: t.amount,
+      rate: t.withholdingRate!,
+      ...grossUpWithholding(t.amount, t.withholdingRate!),
+      creditNote: t.whtCreditNote
+    }));
+
+  const totalCredit = lines.reduce((sum, line) => sum + line.credit, 0);
+
+  return {
+    lines,
+    totalCredit,
+    missingCreditNotes: lines.filter(line => !line.creditNote).length
+  };
+};
@@ -6,22 +6,401 @@ export enum TransactionType {
 export enum ModelProvider {
   GEMINI_FLASH = 'Gemini Flash (Fast)',
   GEMINI_PRO = 'Gemini Pro (Reasoning)',
-  GROK_BETA = 'Grok (Beta)'
+  OPENAI_COMPATIBLE = 'OpenAI-Compatible Endpoint',
+  MOCK = 'Demo (Offline Fixture)'
 }
 
+export enum IncomeCategory {
+  SALARY = 'SALARY',
+  BUSINESS = 'BUSINESS',
+  RENTAL = 'RENTAL',
+  DIVIDEND = 'DIVIDEND',
+  INTEREST = 'INTEREST',
+  OWN_TRANSFER = 'OWN_TRANSFER',
+  LOAN = 'LOAN',
+  REVERSAL = 'REVERSAL',
+  GIFT = 'GIFT'
+}
+
+export enum ExpenseCategory {
+  BANK_CHARGES = 'BANK_CHARGES',
+  PURCHASE = 'PURCHASE',
+  UTILITIES = 'UTILITIES',
+  RENT_PAID = 'RENT_PAID',
+  STATUTORY = 'STATUTORY',
+  TRANSFER_OUT = 'TRANSFER_OUT',
+  OTHER_EXPENSE = 'OTHER_EXPENSE'
+}
+
+export type TransactionCategory = IncomeCategory | ExpenseCategory;
+
+export type CategorySource = 'AUTO' | 'RULE' | 'USER';
+
 export interface Transaction {
   date: string;
   description: string;
   amount: number;
   type: TransactionType;
+  category?: TransactionCategory;
+  categorySource?: CategorySource;
+  taxable?: boolean;
+  counterparty?: string;
+  /** Only a counterparty set by a rule is cleared when rules re-run */
+  counterpartySource?: CategorySource;
+  ruleId?: string;
+  balance?: number;
+  sourceFile?: string;
+  sourceAccount?: string;
+  transferPairId?: string;
+  /** Changed by hand after extraction (inline edit or split) */
+  edited?: boolean;
+  /** Added by hand; not read from any statement */
+  manual?: boolean;
+  /** Business mode: how a DEBIT is treated in the profit computation */
+  expenseTreatment?: ExpenseTreatment;
+  /** Set with the CAPITAL treatment to pick the capital allowance rates */
+  assetClass?: AssetClass;
+  /** VAT treatment of the supply; amounts are taken as VAT-inclusive */
+  vat?: VatTreatment;
+  /** Credit received net of withholding tax at this rate (e.g. 0.05) */
+  withholdingRate?: number;
+  withholdingSource?: CategorySource;
+  /** Reference number of the WHT credit note issued by the payer */
+  whtCreditNote?: string;
+  /** Set on a CREDIT that is the proceeds of selling an asset; taxed under CGT instead of PIT */
+  disposal?: DisposalDetails;
+  /** Page of the source statement the row was read from, counting from 1 */
+  sourcePage?: number;
+  /** The row as printed, before the extractor cleaned it up */
+  sourceText?: string;
+  /** Where the row sits on its page, as fractions of the page height from the top */
+  sourceRegion?: SourceRegion;
+  /** The extractor's confidence in the row, 0-1 */
+  confidence?: number;
+}
+
+export interface SourceRegion {
+  top: number;
+  bottom: number;
+}
+
+/**
+ * An uploaded PDF or image, kept in memory for the page viewer. Not saved with sessions.
+ */
+export interface SourceDocument {
+  base64Data: string;
+  mimeType: string;
+}
+
+export enum ReviewFlag {
+  LOW_CONFIDENCE = 'Low extraction confidence',
+  FUTURE_DATE = 'Dated in the future',
+  ZERO_AMOUNT = 'Zero amount',
+  DUPLICATE = 'Same description and date as another row'
+}
+
+/** WREN: wholly, exclusively, necessarily and reasonably incurred for the business */
+export type ExpenseTreatment = 'WREN' | 'CAPITAL';
+
+export enum AssetClass {
+  PLANT = 'Plant & Machinery',
+  MOTOR_VEHICLE = 'Motor Vehicle',
+  FURNITURE = 'Furniture & Fittings',
+  INDUSTRIAL_BUILDING = 'Industrial Building',
+  OTHER_BUILDING = 'Non-Industrial Building'
+}
+
+export interface CapitalAllowanceRate {
+  initial: number;
+  annual: number;
+}
+
+/** The fields a user can type in when correcting or adding a row */
+export type TransactionDraft = Pick<Transaction, 'date' | 'description' | 'amount' | 'type'>;
+
+export interface SplitPart {
+  description: string;
+  amount: number;
+}
+
+/** Ledger snapshots either side of the current state, newest last in `past` and first in `future` */
+export interface LedgerHistory {
+  past: Transaction[][];
+  future: Transaction[][];
+}
+
+export interface StatementSummary {
+  openingBalance?: number;
+  closingBalance?: number;
+  truncated?: boolean;
+  /** Rows the extractor returned without a readable date, type or amount; dropped */
+  rejectedRows?: number;
+  /** Page-overlap joins between chunks where the repeated rows could not be found; those rows may be counted twice */
+  unmatchedOverlaps?: number;
+  /** Canned rows from the demo provider, not read from the uploaded file */
+  sampleData?: boolean;
+  accountNumber?: string;
+  bankName?: string;
+}
+
+/**
+ * One uploaded statement within an audit session.
+ * Its transactions reference it through `sourceFile`.
+ */
+export interface StatementFile {
+  id: string;
+  fileName: string;
+  account: string;
+  summary: StatementSummary;
+  extractedCount: number;
+  duplicatesRemoved: number;
+  redaction?: RedactionReport;
+}
+
+export interface ExtractedStatement extends StatementSummary {
+  transactions: Transaction[];
+  redaction?: RedactionReport;
+}
+
+export enum RedactionKind {
+  ACCOUNT_NUMBER = 'Account number',
+  NATIONAL_ID = 'BVN / NIN',
+  EMAIL = 'Email',
+  PHONE = 'Phone number',
+  HEADER = 'Header region'
+}
+
+/**
+ * One value masked before upload. `preview` keeps just enough to recognise it;
+ * the full value never leaves the browser and is not stored in the session.
+ */
+export interface RedactionLogEntry {
+  kind: RedactionKind;
+  token?: string;
+  preview: string;
+  occurrences: number;
+}
+
+export interface RedactionReport {
+  entries: RedactionLogEntry[];
+  /** Set when part of the document could not be redacted */
+  warning?: string;
+}
+
+export interface PageRange {
+  startPage: number;
+  endPage: number;
+  totalPages: number;
+}
+
+export interface PdfChunk extends PageRange {
+  base64: string;
+}
+
+export interface ExtractionProgress extends PageRange {
+  completedPages: number;
+  chunkIndex: number;
+  chunkCount: number;
+}
+
+export enum ExtractionJobStatus {
+  QUEUED = 'Queued',
+  RUNNING = 'Running',
+  CANCELLED = 'Cancelled',
+  FAILED = 'Failed',
+  DONE = 'Done'
+}
+
+/**
+ * One uploaded file on its way to becoming a statement.
+ * Cancelled and failed jobs keep their completed chunks and resume after the last one.
+ */
+export interface ExtractionJob {
+  id: string;
+  fileName: string;
+  status: ExtractionJobStatus;
+  /** File read progress, 0-100 */
+  readProgress: number;
+  progress?: ExtractionProgress;
+  completedChunks: number;
+  error?: string;
+}
+
+export interface ExtractionRequest {
+  base64Data: string;
+  mimeType: string;
+  pageRange?: PageRange;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend that turns a statement document into transactions.
+ * Each provider owns its model names, request format and error messages.
+ */
+export interface ExtractionProvider {
+  id: ModelProvider;
+  label: string;
+  isConfigured: () => boolean;
+  extract: (request: ExtractionRequest) => Promise<ExtractedStatement>;
+}
+
+export type ReconciliationStatus = 'RECONCILED' | 'UNRECONCILED' | 'UNVERIFIED';
+
+export interface BalanceBreak {
+  index: number;
+  expectedBalance: number;
+  reportedBalance: number;
+}
+
+export interface ReconciliationResult {
+  status: ReconciliationStatus;
+  openingBalance?: number;
+  closingBalance?: number;
+  totalCredits: number;
+  totalDebits: number;
+  expectedClosing?: number;
+  difference: number;
+  breaks: BalanceBreak[];
+  truncated: boolean;
+  rejectedRows: number;
+  unmatchedOverlaps: number;
+}
+
+export interface RuleCondition {
+  descriptionPattern?: string;
+  type?: TransactionType;
+  minAmount?: number;
+  maxAmount?: number;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface RuleAction {
+  category?: TransactionCategory;
+  taxable?: boolean;
+  counterparty?: string;
+  /** Flags matching credits as received net of WHT at this rate */
+  withholdingRate?: number;
+}
+
+/**
+ * A user-defined categorisation rule. Lower priority numbers run first; the first match wins.
+ */
+export interface CategorisationRule {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  condition: RuleCondition;
+  action: RuleAction;
+}
+
+export enum TaxRegime {
+  PITA_2011 = 'PITA_2011',
+  NTA_2025 = 'NTA_2025'
+}
+
+export interface TaxBand {
+  limit: number;
+  rate: number;
+}
+
+/** How much of the taxable income fell in one band and the tax charged on it */
+export interface TaxBandWorking {
+  lowerLimit: number;
+  /** Absent for the open-ended top band */
+  upperLimit?: number;
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+/**
+ * How the statutory relief on gross income is computed for a rule set.
+ * CRA applies under PITA (as amended); rent relief replaces it under the NTA 2025.
+ */
+export type ReliefRule =
+  | { kind: 'CRA'; fixedMinimum: number; minimumGrossRate: number; grossRate: number }
+  | { kind: 'RENT'; rate: number; cap: number };
+
+export interface TaxRuleSet {
+  regime: TaxRegime;
+  name: string;
+  firstYear: number;
+  lastYear?: number;
+  relief: ReliefRule;
+  bands: TaxBand[];
+  /** Minimum tax as a share of gross income, charged when the banded tax comes out lower */
+  minimumTaxRate?: number;
+}
+
+export enum ReliefType {
+  CRA = 'CRA',
+  RENT = 'RENT',
+  PENSION = 'PENSION',
+  NHF = 'NHF',
+  NHIS = 'NHIS',
+  LIFE_ASSURANCE = 'LIFE_ASSURANCE',
+  VOLUNTARY_PENSION = 'VOLUNTARY_PENSION'
+}
+
+export interface StatutoryDeductions {
+  pension: number;
+  nhf: number;
+  nhis: number;
+  lifeAssurance: number;
+  /** Optional so deductions saved before it existed still load */
+  voluntaryPension?: number;
+}
+
+export interface DeductionRule {
+  type: ReliefType;
+  key: keyof StatutoryDeductions;
+  label: string;
+  grossCapRate?: number;
+  pattern: RegExp;
+}
+
+export interface ReliefLine {
+  type: ReliefType;
+  label: string;
+  claimed: number;
+  allowed: number;
+}
+
+export interface PITOptions {
+  assessmentYear?: number;
+  annualRent?: number;
+  deductions?: Partial<StatutoryDeductions>;
+  /** Applies this regime's rule set instead of the one in force for the year */
+  regime?: TaxRegime;
 }
 
 export interface TaxBreakdown {
+  assessmentYear: number;
+  regime: TaxRegime;
+  ruleSetName: string;
   grossIncome: number;
   consolidatedRelief: number;
+  rentRelief: number;
+  reliefs: ReliefLine[];
+  totalRelief: number;
   taxableIncome: number;
+  /** Every band of the scale, including those the income did not reach */
+  bands: TaxBandWorking[];
+  /** Tax from the graduated bands, before the minimum-tax test */
+  bandTax: number;
+  /** Absent when the rule set has no minimum tax */
+  minimumTax?: number;
+  minimumTaxApplied: boolean;
   totalTax: number;
   effectiveRate: number;
+  /** Rate charged on the next naira of taxable income, as a percentage */
+  marginalRate: number;
+  /** WHT already suffered on income, credited against the tax */
+  withholdingCredit: number;
+  /** Tax after WHT credits; negative when the credits exceed the tax */
+  netTaxPayable: number;
 }
 
 export interface AnalysisResult {
@@ -31,3 +410,404 @@ export interface AnalysisResult {
   netIncome: number;
   taxDetails: TaxBreakdown;
 }
+
+/** The tax inputs a user sets on the dashboard, kept with the audit */
+export interface TaxInputs {
+  assessmentYear: number;
+  annualRent: number;
+  deductions: StatutoryDeductions;
+  /** Optional so sessions saved before these existed still load */
+  mode?: TaxMode;
+  payslips?: PayslipEntry[];
+  /** VAT rate periods; the statutory rates apply when absent */
+  vatRates?: VatRatePeriod[];
+  scenarios?: TaxScenario[];
+}
+
+export interface AuditSessionData {
+  client: string;
+  statements: StatementFile[];
+  transactions: Transaction[];
+  history: LedgerHistory;
+  taxInputs: TaxInputs | null;
+  taxResult: TaxBreakdown;
+  /** Optional so sessions saved before profiles existed still load */
+  profile?: TaxpayerProfile;
+}
+
+/**
+ * What the session list shows. For encrypted sessions only the name and dates are readable
+ * until the passphrase is entered.
+ */
+export interface AuditSessionMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  encrypted: boolean;
+  client?: string;
+  assessmentYear?: number;
+  transactionCount?: number;
+  totalTax?: number;
+}
+
+export interface EncryptedPayload {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface StoredAuditSession extends AuditSessionMeta {
+  data?: AuditSessionData;
+  encryptedData?: EncryptedPayload;
+}
+
+/** The session the open audit autosaves to */
+export interface CurrentSession {
+  id: string;
+  name: string;
+  client: string;
+  /** Held in memory only, so autosave can re-encrypt; never written to storage */
+  passphrase?: string;
+}
+
+export interface SaveSessionRequest {
+  name: string;
+  client: string;
+  encrypt: boolean;
+  /** Left out to keep the passphrase of the session already open */
+  passphrase?: string;
+}
+
+export interface MonthlyCashFlow {
+  /** "YYYY-MM" */
+  month: string;
+  inflow: number;
+  outflow: number;
+  net: number;
+  taxableIncome: number;
+}
+
+export interface ComputationReportInput {
+  taxpayerName?: string;
+  accounts: string[];
+  transactions: Transaction[];
+  tax: TaxBreakdown;
+  profile?: TaxpayerProfile;
+  /** Authority the return is filed with; names the report */
+  taxAuthority?: TaxAuthority;
+  /** Business mode: the profit computation behind the total income */
+  businessAccounts?: BusinessProfitLoss;
+}
+
+export enum TaxMode {
+  ANNUAL = 'Annual PIT',
+  PAYE = 'PAYE Review',
+  BUSINESS = 'Business Income',
+  COMPANY = 'Company (CIT)'
+}
+
+/** Figures copied from one month's payslip; anything left out falls back to the bank statement */
+export interface PayslipEntry {
+  /** "YYYY-MM" */
+  month: string;
+  grossPay?: number;
+  payeDeducted?: number;
+  pension?: number;
+}
+
+export interface PayeMonth {
+  month: string;
+  salaryCredited: number;
+  grossPay: number;
+  grossSource: 'PAYSLIP' | 'BANK';
+  expectedPaye: number;
+  payeDeducted?: number;
+  /** Deducted minus expected: positive is over-deducted, negative under-deducted */
+  variance?: number;
+}
+
+export interface PayeSummary {
+  assessmentYear: number;
+  months: PayeMonth[];
+  totalGross: number;
+  totalExpected: number;
+  totalDeducted: number;
+  /** Months with a payslip PAYE figure to compare against */
+  comparedMonths: number;
+  /** Sum of variances over compared months: positive is over-remitted, negative under-remitted */
+  position: number;
+}
+
+export interface CapitalAllowanceLine {
+  date: string;
+  description: string;
+  assetClass: AssetClass;
+  cost: number;
+  initialAllowance: number;
+  annualAllowance: number;
+}
+
+export interface BusinessProfitLoss {
+  turnover: number;
+  allowableExpenses: number;
+  expensesByCategory: { category: ExpenseCategory; amount: number }[];
+  netProfit: number;
+  capitalAllowances: CapitalAllowanceLine[];
+  totalCapitalAllowances: number;
+  /** Allowances left over when they exceed the profit; carried forward to the next year */
+  unabsorbedAllowances: number;
+  assessableProfit: number;
+  lossCarriedForward: number;
+  /** Other taxable income (salary, rent, dividends...) added to the business profit */
+  otherIncome: number;
+  /** Total income that goes through reliefs and the PIT bands */
+  totalIncome: number;
+}
+
+export enum CompanySize {
+  SMALL = 'Small',
+  MEDIUM = 'Medium',
+  LARGE = 'Large'
+}
+
+export interface CompanySizeBand {
+  size: CompanySize;
+  /** Highest gross turnover in the band */
+  turnoverLimit: number;
+  citRate: number;
+}
+
+export interface CompanyTaxRuleSet {
+  name: string;
+  firstYear: number;
+  lastYear?: number;
+  /** Ordered by turnover, smallest first */
+  sizes: CompanySizeBand[];
+  /** Tertiary Education Tax, or the development levy that replaces it */
+  educationTax: { label: string; rate: number; smallCompanyExempt: boolean };
+  /** Minimum tax as a share of gross turnover; small companies are exempt */
+  minimumTaxRate?: number;
+}
+
+export interface CompanyTaxBreakdown {
+  assessmentYear: number;
+  ruleSetName: string;
+  size: CompanySize;
+  turnover: number;
+  /** Profit before capital allowances; the base for education tax */
+  adjustedProfit: number;
+  capitalAllowances: number;
+  /** Profit after capital allowances; the base for CIT */
+  totalProfitAfterAllowances: number;
+  citRate: number;
+  cit: number;
+  minimumTax?: number;
+  minimumTaxApplied: boolean;
+  companyIncomeTax: number;
+  educationTaxLabel: string;
+  educationTaxRate: number;
+  educationTax: number;
+  totalTax: number;
+  /** Total tax as a percentage of adjusted profit */
+  effectiveRate: number;
+  smallCompanyExempt: boolean;
+}
+
+export enum VatTreatment {
+  STANDARD = 'Standard-rated',
+  ZERO = 'Zero-rated',
+  EXEMPT = 'Exempt'
+}
+
+/** VAT rate in force from the start of a month until the next period begins */
+export interface VatRatePeriod {
+  /** "YYYY-MM" */
+  from: string;
+  rate: number;
+}
+
+/** One month laid out like the monthly VAT return */
+export interface VatMonth {
+  /** "YYYY-MM" */
+  month: string;
+  rate: number;
+  /** Net of VAT, all VAT-tagged sales */
+  totalSales: number;
+  exemptSales: number;
+  zeroRatedSales: number;
+  standardRatedSales: number;
+  outputVat: number;
+  /** Net of VAT, standard-rated purchases */
+  standardRatedPurchases: number;
+  inputVat: number;
+  /** Positive is payable, negative is refundable */
+  netVat: number;
+}
+
+export interface VatReturnSummary {
+  months: VatMonth[];
+  totalOutputVat: number;
+  totalInputVat: number;
+  netVat: number;
+}
+
+export interface WithholdingCreditLine {
+  date: string;
+  description: string;
+  counterparty?: string;
+  /** Amount actually received */
+  netAmount: number;
+  rate: number;
+  grossAmount: number;
+  credit: number;
+  creditNote?: string;
+}
+
+export interface WithholdingSummary {
+  lines: WithholdingCreditLine[];
+  /** WHT deducted at source; added back to income, then credited against the tax */
+  totalCredit: number;
+  /** Lines without a credit note reference, which the tax office may not accept */
+  missingCreditNotes: number;
+}
+
+export enum DisposalAssetType {
+  LAND = 'Land & Buildings',
+  PRINCIPAL_RESIDENCE = 'Principal Private Residence',
+  SHARES = 'Shares & Securities',
+  PRIVATE_VEHICLE = 'Private Motor Vehicle',
+  OTHER = 'Other Asset'
+}
+
+export interface DisposalDetails {
+  assetType: DisposalAssetType;
+  acquisitionCost: number;
+  incidentalCosts: number;
+  /** Date and description of the purchase row the cost was taken from, when linked */
+  acquisitionSource?: string;
+}
+
+export interface CgtRuleSet {
+  name: string;
+  firstYear: number;
+  lastYear?: number;
+  /** Flat CGT rate; absent when gains are taxed on the PIT scale on top of taxable income */
+  rate?: number;
+  /** Share disposals are exempt within these limits for the year; no limits means always exempt */
+  shareExemption: { proceedsLimit?: number; gainLimit?: number };
+  /** Whether losses on one disposal reduce gains on others */
+  lossesAllowed: boolean;
+}
+
+export interface DisposalLine {
+  date: string;
+  description: string;
+  assetType: DisposalAssetType;
+  proceeds: number;
+  acquisitionCost: number;
+  incidentalCosts: number;
+  /** Negative for a loss */
+  gain: number;
+  exempt: boolean;
+  exemptReason?: string;
+}
+
+export interface CapitalGainsSummary {
+  assessmentYear: number;
+  ruleSetName: string;
+  lines: DisposalLine[];
+  totalProceeds: number;
+  exemptGains: number;
+  /** Losses set against gains, where the rules allow it */
+  allowableLosses: number;
+  chargeableGain: number;
+  tax: number;
+}
+
+export enum NigerianState {
+  ABIA = 'Abia', ADAMAWA = 'Adamawa', AKWA_IBOM = 'Akwa Ibom', ANAMBRA = 'Anambra', BAUCHI = 'Bauchi',
+  BAYELSA = 'Bayelsa', BENUE = 'Benue', BORNO = 'Borno', CROSS_RIVER = 'Cross River', DELTA = 'Delta',
+  EBONYI = 'Ebonyi', EDO = 'Edo', EKITI = 'Ekiti', ENUGU = 'Enugu', FCT = 'FCT Abuja', GOMBE = 'Gombe',
+  IMO = 'Imo', JIGAWA = 'Jigawa', KADUNA = 'Kaduna', KANO = 'Kano', KATSINA = 'Katsina', KEBBI = 'Kebbi',
+  KOGI = 'Kogi', KWARA = 'Kwara', LAGOS = 'Lagos', NASARAWA = 'Nasarawa', NIGER = 'Niger', OGUN = 'Ogun',
+  ONDO = 'Ondo', OSUN = 'Osun', OYO = 'Oyo', PLATEAU = 'Plateau', RIVERS = 'Rivers', SOKOTO = 'Sokoto',
+  TARABA = 'Taraba', YOBE = 'Yobe', ZAMFARA = 'Zamfara'
+}
+
+export enum EmploymentStatus {
+  EMPLOYED = 'Employed (PAYE)',
+  SELF_EMPLOYED = 'Self-employed',
+  EMPLOYED_WITH_BUSINESS = 'Employed with a business',
+  RETIRED = 'Retired / pensioner',
+  UNEMPLOYED = 'Not working'
+}
+
+/** Who the audit is for; captured once and saved with the session */
+export interface TaxpayerProfile {
+  name: string;
+  tin?: string;
+  /** State of residence on 1 January of the year, which decides who collects PIT */
+  state?: NigerianState;
+  employmentStatus: EmploymentStatus;
+  dependents: number;
+}
+
+export interface TaxAuthority {
+  name: string;
+  abbreviation: string;
+}
+
+export interface FilingDeadline {
+  /** ISO date */
+  date: string;
+  label: string;
+  authority?: TaxAuthority;
+  /** Extra filing obligation that falls before the main deadline */
+  note?: string;
+}
+
+/** Narrows the analytics charts and the transaction table */
+export interface TransactionFilter {
+  /** ISO dates, inclusive */
+  dateFrom?: string;
+  dateTo?: string;
+  /** Empty means every category */
+  categories: TransactionCategory[];
+}
+
+export interface CategoryTotal {
+  category: TransactionCategory;
+  amount: number;
+}
+
+export interface CounterpartyTotal {
+  name: string;
+  inflow: number;
+  outflow: number;
+  count: number;
+}
+
+export interface BalancePoint {
+  date: string;
+  balance: number;
+}
+
+/** A what-if variation of the audit, priced with the PIT calculator */
+export interface TaxScenario {
+  id: string;
+  name: string;
+  grossIncome: number;
+  annualRent: number;
+  deductions: StatutoryDeductions;
+  regime: TaxRegime;
+}
+
+export interface ScenarioResult {
+  scenario: TaxScenario;
+  tax: TaxBreakdown;
+  /** Gross income less tax and every contribution claimed as a deduction */
+  takeHome: number;
+  /** Change in tax against the current audit; negative is a saving */
+  taxDelta: number;
+}